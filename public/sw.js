@@ -0,0 +1,139 @@
+// Gold Pulse KR service worker: keeps the app shell and the last quotes around so the dashboard
+// still renders something useful when the connection drops.
+
+const SHELL_CACHE = "gold-pulse-shell-v1";
+const DATA_CACHE = "gold-pulse-data-v1";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icons/icon-192.png", "/icons/icon-512.png"];
+// Every history window is cached under its own URL; keep only the most recently fetched ones.
+const HISTORY_LIMIT = 20;
+// Must match OFFLINE_HEADER in src/components/offline.ts.
+const OFFLINE_HEADER = "X-Gold-Pulse-Offline";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+// The first visit loads its bundles before the worker is in control, so pick them out of the cached page
+// instead of waiting for the next visit to request them again.
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+  const page = await cache.match("/");
+  const html = page ? await page.text() : "";
+  const assets = new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) ?? []);
+  await cache.addAll([...assets]);
+}
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, DATA_CACHE];
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => keys.filter((key) => key.startsWith("gold-pulse-") && !current.includes(key)))
+      .then((stale) => Promise.all(stale.map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// The live stream bypasses the worker, so the page hands over each streamed snapshot to serve as /api/spot offline.
+self.addEventListener("message", (event) => {
+  const { data } = event;
+  if (data?.type !== "spot" || typeof data.snapshot?.metal !== "string") {
+    return;
+  }
+
+  const key = `/api/spot?metal=${data.snapshot.metal}`;
+  const response = new Response(JSON.stringify(data.snapshot), { headers: { "Content-Type": "application/json" } });
+  event.waitUntil(caches.open(DATA_CACHE).then((cache) => cache.put(key, response)));
+});
+
+// Alert notifications are shown through the worker (Android Chrome allows no other way); a tap brings the app up.
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) => (windows.length > 0 ? windows[0].focus() : self.clients.openWindow("/"))),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(navigate(request));
+    return;
+  }
+  // CSV/JSON exports are downloads, not data the dashboard renders.
+  if (url.pathname === "/api/spot" || (url.pathname === "/api/history" && !url.searchParams.has("format"))) {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+  // Build output is content-hashed, so a cached copy never goes stale.
+  if (url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/icons/")) {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+async function navigate(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request.url, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request.url)) ?? (await cache.match("/"));
+    if (!cached) {
+      throw error;
+    }
+    return cached;
+  }
+}
+
+// Fresh quotes whenever the network answers; the last good response, flagged as such, when it does not.
+async function networkFirst(request) {
+  const cache = await caches.open(DATA_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request.url, response.clone());
+      await trimHistory(cache);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request.url);
+    if (!cached) {
+      throw error;
+    }
+    const headers = new Headers(cached.headers);
+    headers.set(OFFLINE_HEADER, "1");
+    return new Response(cached.body, { status: cached.status, statusText: cached.statusText, headers });
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Cache keys come back in insertion order and a put replaces the old entry, so the oldest windows come first.
+async function trimHistory(cache) {
+  const keys = await cache.keys();
+  const history = keys.filter((key) => new URL(key.url).pathname === "/api/history");
+  await Promise.all(history.slice(0, Math.max(0, history.length - HISTORY_LIMIT)).map((key) => cache.delete(key)));
+}
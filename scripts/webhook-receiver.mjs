@@ -0,0 +1,32 @@
+// Minimal local webhook receiver for exercising alert deliveries.
+// Usage: node scripts/webhook-receiver.mjs [port]   (set WEBHOOK_FAIL=2 to fail the first two requests with 500)
+import { createServer } from "node:http";
+
+const port = Number.parseInt(process.argv[2] ?? "4010", 10);
+let failuresLeft = Number.parseInt(process.env.WEBHOOK_FAIL ?? "0", 10);
+const seen = new Set();
+
+createServer((request, response) => {
+  let body = "";
+  request.on("data", (chunk) => {
+    body += chunk;
+  });
+  request.on("end", () => {
+    const eventId = request.headers["x-gold-pulse-event-id"];
+    if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      console.log(`[receiver] ${request.method} ${request.url} event=${eventId} -> 500 (simulated)`);
+      response.writeHead(500).end();
+      return;
+    }
+
+    const key = `${request.url}:${eventId}`;
+    const duplicate = seen.has(key);
+    seen.add(key);
+    console.log(`[receiver] ${request.method} ${request.url} event=${eventId}${duplicate ? " (duplicate)" : ""}`);
+    console.log(body);
+    response.writeHead(200, { "Content-Type": "application/json" }).end('{"ok":true}');
+  });
+}).listen(port, () => {
+  console.log(`[receiver] listening on http://localhost:${port}`);
+});
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAlertsRequest } from "@/lib/alertEngine/auth";
+import { patchServerRule } from "@/lib/alertEngine/rules";
+import { loadAlertStore, updateAlertStore } from "@/lib/alertEngine/store";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Alert rule ${id} not found` }, { status: 404 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const denied = authorizeAlertsRequest(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { id } = await params;
+    const { rules, deliveries } = await loadAlertStore();
+    const rule = rules.find((item) => item.id === id);
+    if (!rule) {
+      return notFound(id);
+    }
+
+    return NextResponse.json(
+      { ...rule, deliveries: deliveries.filter((record) => record.ruleId === id).reverse() },
+      {
+        headers: {
+          "Cache-Control": "no-store",
+        },
+      },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const denied = authorizeAlertsRequest(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const result = await updateAlertStore((data) => {
+      const index = data.rules.findIndex((item) => item.id === id);
+      if (index < 0) {
+        return null;
+      }
+
+      const patched = patchServerRule(data.rules[index], body);
+      if (typeof patched !== "string") {
+        data.rules[index] = patched;
+      }
+      return patched;
+    });
+
+    if (result === null) {
+      return notFound(id);
+    }
+    if (typeof result === "string") {
+      return NextResponse.json({ error: result }, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const denied = authorizeAlertsRequest(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { id } = await params;
+    const removed = await updateAlertStore((data) => {
+      const before = data.rules.length;
+      data.rules = data.rules.filter((item) => item.id !== id);
+      return data.rules.length < before;
+    });
+
+    return removed ? new NextResponse(null, { status: 204 }) : notFound(id);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
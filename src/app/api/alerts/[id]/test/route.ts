@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAlertsRequest } from "@/lib/alertEngine/auth";
+import { deliverAlertEvent } from "@/lib/alertEngine/scheduler";
+import { loadAlertStore, updateAlertStore } from "@/lib/alertEngine/store";
+import { getSpotSnapshot } from "@/lib/spot";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Sends a one-off delivery to the rule's webhooks without touching its trigger state.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const denied = authorizeAlertsRequest(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { id } = await params;
+    const { rules } = await loadAlertStore();
+    const rule = rules.find((item) => item.id === id);
+    if (!rule) {
+      return NextResponse.json({ error: `Alert rule ${id} not found` }, { status: 404 });
+    }
+
+    const snapshot = await getSpotSnapshot();
+    const now = new Date().toISOString();
+    const value = snapshot[rule.metric] ?? rule.value;
+    const records = await deliverAlertEvent(
+      rule,
+      {
+        id: `test-${rule.id}-${Date.parse(now)}`,
+        ruleId: rule.id,
+        metric: rule.metric,
+        kind: rule.kind,
+        condition: rule.condition,
+        threshold: rule.value,
+        value,
+        move: null,
+        test: true,
+        firedAt: now,
+      },
+      snapshot,
+    );
+
+    await updateAlertStore((data) => {
+      data.deliveries.push(...records);
+    });
+
+    return NextResponse.json({ deliveries: records });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAlertsRequest } from "@/lib/alertEngine/auth";
+import { createServerRule } from "@/lib/alertEngine/rules";
+import { startAlertEngine } from "@/lib/alertEngine/scheduler";
+import { loadAlertStore, updateAlertStore } from "@/lib/alertEngine/store";
+
+export async function GET(request: NextRequest) {
+  const denied = authorizeAlertsRequest(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    startAlertEngine();
+    const { rules, deliveries } = await loadAlertStore();
+
+    return NextResponse.json(
+      { rules, deliveries: deliveries.slice(-50).reverse() },
+      {
+        headers: {
+          "Cache-Control": "no-store",
+        },
+      },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = authorizeAlertsRequest(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    startAlertEngine();
+    const rule = createServerRule(await request.json().catch(() => null));
+    if (typeof rule === "string") {
+      return NextResponse.json({ error: rule }, { status: 400 });
+    }
+
+    await updateAlertStore((data) => {
+      data.rules.push(rule);
+    });
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
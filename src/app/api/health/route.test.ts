@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { HealthReport } from "@/lib/market/health";
+import { GET as getSpot } from "@/app/api/spot/route";
+import { clearQuoteCache, clearUpstreamHealth, mockUpstream } from "@/test/upstream";
+import { GET } from "./route";
+
+async function getHealth(): Promise<HealthReport & { provider: string }> {
+  return (await GET()).json();
+}
+
+beforeEach(() => {
+  clearQuoteCache();
+  clearUpstreamHealth();
+});
+
+describe("GET /api/health", () => {
+  it("reports each upstream the spot snapshot touched", async () => {
+    mockUpstream(["GC=F"]);
+    await getSpot(new NextRequest("http://localhost/api/spot"));
+    const health = await getHealth();
+    const byName = Object.fromEntries(health.upstreams.map((upstream) => [upstream.upstream, upstream]));
+
+    expect(health.provider).toBe("live");
+    expect(health.status).toBe("degraded");
+    expect(Object.keys(byName)).toEqual([
+      "naver:gold",
+      "naver:krx-gold",
+      "yahoo:CNY=X",
+      "yahoo:EUR=X",
+      "yahoo:GC=F",
+      "yahoo:JPY=X",
+      "yahoo:KRW=X",
+      "yahoo:SI=F",
+    ]);
+    expect(byName["yahoo:GC=F"]).toMatchObject({ status: "degraded", recentErrors: [{ message: "HTTP 503" }] });
+    expect(byName["naver:gold"]).toMatchObject({ status: "ok", parse: { status: "ok" } });
+    expect(byName["naver:krx-gold"].lastSuccessAt).not.toBeNull();
+  });
+});
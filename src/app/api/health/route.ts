@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getHealthReport } from "@/lib/market/health";
+
+export const dynamic = "force-dynamic";
+
+// Stats cover this server process since it started; fixture mode never calls an upstream.
+export async function GET() {
+  try {
+    return NextResponse.json(
+      {
+        provider: process.env.MARKET_DATA_PROVIDER === "fixture" ? "fixture" : "live",
+        ...getHealthReport(),
+      },
+      {
+        headers: {
+          "Cache-Control": "no-store",
+        },
+      },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
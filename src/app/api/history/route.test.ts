@@ -0,0 +1,216 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { HistoryPoint } from "@/lib/historyMerge";
+import { OUNCE_TO_GRAM, usdPerOunceToKrwPerGram } from "@/lib/metals";
+import { clearQuoteCache, mockUpstream } from "@/test/upstream";
+import { GET } from "./route";
+
+// The recorded bars start 2024-05-16 14:00 UTC; "now" is a few days later so presets cover them.
+const NOW = new Date("2024-05-20T06:00:00Z");
+const T0 = 1_715_868_000;
+
+type HistoryBody = {
+  metal: string;
+  currency: string;
+  range: string;
+  interval: string;
+  from: string;
+  to: string;
+  points: HistoryPoint[];
+  benchmarks: Array<{ id: string; source: string; closes: Array<number | null> }>;
+  source: string;
+  error?: string;
+};
+
+function getHistory(query = "") {
+  return GET(new NextRequest(`http://localhost/api/history${query}`));
+}
+
+async function getHistoryJson(query = ""): Promise<{ status: number; body: HistoryBody }> {
+  const response = await getHistory(query);
+  return { status: response.status, body: await response.json() };
+}
+
+beforeEach(() => {
+  clearQuoteCache();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("GET /api/history", () => {
+  it("merges the metal, FX, domestic and ratio series", async () => {
+    mockUpstream();
+    const { status, body } = await getHistoryJson();
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ metal: "gold", range: "1mo", interval: "1h", to: NOW.toISOString() });
+    // The null close at T0+1h is dropped; FX bars sit half an hour off and carry forward.
+    expect(body.points.map((point) => point.ts)).toEqual([T0, T0 + 7_200, T0 + 10_800, T0 + 14_400]);
+    expect(body.points.map((point) => point.usdKrw)).toEqual([1_370, 1_370, 1_372.5, 1_372.5]);
+    // KRX closes apply from their 15:30 KST session close, so the bars after midnight on 05-17 keep 05-16's.
+    expect(body.points.map((point) => point.domesticKrwPerGram)).toEqual([147_270, 147_270, 147_270, 147_270]);
+    expect(body.points[0].krwPerGram).toBeCloseTo(usdPerOunceToKrwPerGram(2_380.1, 1_370), 8);
+    expect(body.points[1].goldSilverRatio).toBeCloseTo(2_385.4 / 28.7, 10);
+    expect(body.source).toBe(
+      "Domestic: Naver Finance 금 99.99_1kg 금현물 (KRX, 1g 환산). Global: Yahoo Finance (GC=F), Yahoo Finance (KRW=X).",
+    );
+  });
+
+  it("serves a history without domestic closes when Naver fails", async () => {
+    mockUpstream(["goldDailyQuote"]);
+    const { status, body } = await getHistoryJson();
+
+    expect(status).toBe(200);
+    expect(body.points.every((point) => point.domesticKrwPerGram === null && point.premiumPercent === null)).toBe(true);
+    expect(body.source).toBe("Yahoo Finance (GC=F), Yahoo Finance (KRW=X)");
+  });
+
+  it("reprices the series in another currency through the won cross rate", async () => {
+    mockUpstream();
+    const { status, body } = await getHistoryJson("?currency=jpy");
+
+    expect(status).toBe(200);
+    expect(body.currency).toBe("JPY");
+    expect(body.points.map((point) => point.fxRate)).toEqual([155.6, 155.9, 155.9, 155.9]);
+    expect(body.points[0].perGram).toBeCloseTo((2_380.1 * 155.6) / OUNCE_TO_GRAM, 8);
+    expect(body.points[0].domesticPerGram).toBeCloseTo((147_270 / 1_370) * 155.6, 8);
+    expect(body.points[0].krwPerGram).toBeCloseTo(usdPerOunceToKrwPerGram(2_380.1, 1_370), 8);
+    expect(body.source).toBe(
+      "Domestic: Naver Finance 금 99.99_1kg 금현물 (KRX, 1g 환산). " +
+        "Global: Yahoo Finance (GC=F), Yahoo Finance (KRW=X), Yahoo Finance (JPY=X).",
+    );
+  });
+
+  it("prices in dollars without another FX series", async () => {
+    const fetchMock = mockUpstream();
+    const { body } = await getHistoryJson("?currency=USD&metal=silver");
+
+    expect(body.points.every((point) => point.fxRate === 1)).toBe(true);
+    expect(body.points[0].perGram).toBeCloseTo(body.points[0].usdPerOunce / OUNCE_TO_GRAM, 10);
+    expect(fetchMock.mock.calls.some(([url]) => String(url).includes("JPY"))).toBe(false);
+  });
+
+  it("aligns benchmark closes to the metal bars", async () => {
+    mockUpstream();
+    const { status, body } = await getHistoryJson("?benchmarks=usdkrw,kospi");
+
+    expect(status).toBe(200);
+    // Returned in catalog order; KOSPI has no close before T0+1h, so the first bar has none either,
+    // while USD/KRW repeats the FX leg of the bars.
+    expect(body.benchmarks).toEqual([
+      { id: "kospi", source: "Yahoo Finance (^KS11)", closes: [null, 2_724.62, 2_753, 2_753] },
+      { id: "usdkrw", source: "Yahoo Finance (KRW=X)", closes: [1_370, 1_370, 1_372.5, 1_372.5] },
+    ]);
+  });
+
+  it("leaves out a benchmark that fails to load", async () => {
+    mockUpstream(["^KS11"]);
+    const { status, body } = await getHistoryJson("?benchmarks=kospi");
+
+    expect(status).toBe(200);
+    expect(body.points).toHaveLength(4);
+    expect(body.benchmarks).toEqual([]);
+  });
+
+  it("fails when the metal series is unavailable", async () => {
+    mockUpstream(["GC=F"]);
+    const { status, body } = await getHistoryJson();
+
+    expect(status).toBe(500);
+    expect(body.error).toBe("All providers failed for gold history (yahoo: Yahoo request failed for GC=F (503))");
+  });
+
+  it("requests an explicit window by period with an interval picked from its span", async () => {
+    const fetchMock = mockUpstream();
+    const { status, body } = await getHistoryJson("?from=2024-05-16&to=2024-05-17");
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      range: "custom",
+      interval: "5m",
+      from: "2024-05-15T15:00:00.000Z",
+      to: "2024-05-17T14:59:59.000Z",
+    });
+
+    const yahooUrl = new URL(String(fetchMock.mock.calls.find(([url]) => String(url).includes("GC%3DF"))?.[0]));
+    expect(yahooUrl.searchParams.get("period1")).toBe(String(Date.parse("2024-05-15T15:00:00Z") / 1000));
+    expect(yahooUrl.searchParams.get("interval")).toBe("5m");
+  });
+
+  it("gives daily bars the KRX close set by the end of the bar", async () => {
+    mockUpstream();
+    const { status, body } = await getHistoryJson("?range=6mo");
+
+    expect(status).toBe(200);
+    expect(body.interval).toBe("1d");
+    // Bars open at 04:00 UTC; each takes that day's 15:30 KST close, except the last, which ends
+    // "now" (05-20 15:00 KST) before that session closes.
+    expect(body.points.map((point) => point.ts)).toEqual([1_715_832_000, 1_715_918_400, 1_716_177_600]);
+    expect(body.points.map((point) => point.domesticKrwPerGram)).toEqual([147_270, 148_250, 148_250]);
+  });
+
+  it("scrapes the daily KRX closes once for every window they already cover", async () => {
+    const fetchMock = mockUpstream();
+    const countDailyCalls = () =>
+      fetchMock.mock.calls.filter(([url]) => String(url).includes("goldDailyQuote")).length;
+
+    await getHistoryJson("?range=6mo");
+    const scraped = countDailyCalls();
+    const { body } = await getHistoryJson("?from=2024-05-16&to=2024-05-17");
+    await getHistoryJson("?range=1mo&interval=1h");
+
+    expect(scraped).toBeGreaterThan(0);
+    expect(countDailyCalls()).toBe(scraped);
+    expect(body.points.map((point) => point.domesticKrwPerGram)).toEqual([147_270, 147_270, 147_270, 147_270]);
+
+    // A window reaching back further than the cached closes scrapes again.
+    await getHistoryJson("?range=1y");
+    expect(countDailyCalls()).toBeGreaterThan(scraped);
+  });
+
+  it("exports CSV with KST timestamps", async () => {
+    mockUpstream();
+    const response = await getHistory("?format=csv&columns=usdPerOunce,usdKrw");
+    const lines = (await response.text()).trimEnd().split("\n");
+
+    expect(response.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+    expect(response.headers.get("Content-Disposition")).toContain("1mo");
+    expect(lines).toEqual([
+      "timeKst,ts,usdPerOunce,usdKrw",
+      `2024-05-16 23:00,${T0},2380.1,1370`,
+      `2024-05-17 01:00,${T0 + 7_200},2385.4,1370`,
+      `2024-05-17 02:00,${T0 + 10_800},2379.9,1372.5`,
+      `2024-05-17 03:00,${T0 + 14_400},2390,1372.5`,
+    ]);
+  });
+
+  it.each([
+    ["?metal=copper", "Unknown metal"],
+    ["?range=2y", "Unknown range: 2y"],
+    ["?range=toString", "Unknown range: toString"],
+    ["?range=constructor", "Unknown range: constructor"],
+    ["?range=__proto__", "Unknown range: __proto__"],
+    ["?interval=toString", "Unknown interval: toString"],
+    ["?from=2024-05-01&interval=valueOf", "Unknown interval: valueOf"],
+    ["?mode=recorded&interval=hasOwnProperty", "Unknown interval: hasOwnProperty"],
+    ["?range=1y&interval=1m", "Interval 1m is only available for the last 30 days"],
+    ["?range=1mo&from=2024-05-01", "Use either range or from/to, not both"],
+    ["?from=2024-05-18&to=2024-05-17", "from must be before to and in the past"],
+    ["?format=xml", "Unknown format"],
+    ["?currency=GBP", "Unknown currency"],
+    ["?mode=recorded&currency=JPY", "Recorded history is only available in KRW"],
+    ["?benchmarks=kospi,nasdaq", "Unknown benchmark; use kospi, sp500, btcusd, usdkrw"],
+    ["?mode=recorded&benchmarks=kospi", "Benchmarks are not available for recorded history"],
+  ])("rejects %s", async (query, error) => {
+    const fetchMock = mockUpstream();
+    const { status, body } = await getHistoryJson(query);
+
+    expect(status).toBe(400);
+    expect(body.error).toBe(error);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,147 +1,392 @@
 import { NextRequest, NextResponse } from "next/server";
+import { BENCHMARKS, parseBenchmarks, type Benchmark } from "@/lib/benchmarks";
+import { USD_PER_USD, getCurrency, parseCurrency, type Currency } from "@/lib/currencies";
+import {
+  getExportFilename,
+  parseColumns,
+  parseExportFormat,
+  toCsv,
+  toJsonRows,
+  type ExportFormat,
+  type HistoryColumn,
+} from "@/lib/historyExport";
+import {
+  HISTORY_INTERVALS,
+  checkInterval,
+  parseDateParam,
+  parseInterval,
+  pickInterval,
+  toBarEnd,
+  type HistoryInterval,
+} from "@/lib/historyWindow";
+import { alignToPoints, mergeGoldAndFx, type HistoryPoint } from "@/lib/historyMerge";
+import { getHistory, type HistoryRequest, type SeriesPoint, type Sourced } from "@/lib/market";
+import { parseMetal, usdPerOunceToKrwPerGram, type Metal } from "@/lib/metals";
+import { cached, peekCached, type CacheMeta, type CachePolicy, type CachedResult } from "@/lib/quoteCache";
+import { readSpotRecords } from "@/lib/recorder/store";
 
-const OUNCE_TO_GRAM = 31.1034768;
+const MINUTE_MS = 60_000;
 
+// Hourly bars move within the hour; weekly and monthly bars barely move within a day.
 const RANGE_CONFIG = {
-  "1mo": { range: "1mo", interval: "1h" },
-  "6mo": { range: "6mo", interval: "1d" },
-  "1y": { range: "1y", interval: "1d" },
-  "10y": { range: "10y", interval: "1wk" },
-  "20y": { range: "20y", interval: "1mo" },
-} as const;
+  "1mo": { range: "1mo", interval: "1h", days: 31, cache: { ttlMs: 5 * MINUTE_MS, staleMs: 25 * MINUTE_MS } },
+  "6mo": { range: "6mo", interval: "1d", days: 183, cache: { ttlMs: 30 * MINUTE_MS, staleMs: 90 * MINUTE_MS } },
+  "1y": { range: "1y", interval: "1d", days: 366, cache: { ttlMs: 30 * MINUTE_MS, staleMs: 90 * MINUTE_MS } },
+  "10y": { range: "10y", interval: "1wk", days: 3653, cache: { ttlMs: 180 * MINUTE_MS, staleMs: 540 * MINUTE_MS } },
+  "20y": { range: "20y", interval: "1mo", days: 7305, cache: { ttlMs: 180 * MINUTE_MS, staleMs: 540 * MINUTE_MS } },
+} as const satisfies Record<string, { range: string; interval: HistoryInterval; days: number; cache: CachePolicy }>;
 
-type RangeKey = keyof typeof RANGE_CONFIG;
+// KRX publishes one close per day, so the scraped pages only need an occasional refresh.
+const DOMESTIC_CACHE_POLICY: CachePolicy = { ttlMs: 30 * MINUTE_MS, staleMs: 330 * MINUTE_MS };
+const DOMESTIC_HISTORY_KEY = "history:krx-gold:daily";
 
-type YahooChartMeta = {
-  currency?: string;
-};
+// Explicit windows that already closed never change; open ones refresh like the hourly preset.
+const CLOSED_WINDOW_CACHE_POLICY: CachePolicy = { ttlMs: 24 * 60 * MINUTE_MS, staleMs: 0 };
+const OPEN_WINDOW_CACHE_POLICY: CachePolicy = RANGE_CONFIG["1mo"].cache;
 
-type YahooChartQuote = {
-  close?: Array<number | null>;
-};
+type RangeKey = keyof typeof RANGE_CONFIG;
 
-type YahooChartResult = {
-  meta?: YahooChartMeta;
-  timestamp?: number[];
-  indicators?: {
-    quote?: YahooChartQuote[];
-  };
+type HistoryWindow = {
+  range: RangeKey | "custom";
+  // Distinguishes cache entries and export filenames.
+  key: string;
+  interval: HistoryInterval;
+  request: HistoryRequest;
+  cache: CachePolicy;
 };
 
-type YahooChartResponse = {
-  chart?: {
-    result?: YahooChartResult[];
-  };
-};
+function isRangeKey(value: string): value is RangeKey {
+  return Object.hasOwn(RANGE_CONFIG, value);
+}
 
-type Point = {
-  ts: number;
-  usdPerOunce: number;
-  usdKrw: number;
-  krwPerGram: number;
-};
+function toKstDay(ts: number): string {
+  return new Date((ts + 9 * 3_600) * 1000).toISOString().slice(0, 10);
+}
 
-function parseSeries(chart: YahooChartResult): Array<{ ts: number; close: number }> {
-  const timestamps = chart.timestamp ?? [];
-  const closes = chart.indicators?.quote?.[0]?.close ?? [];
-  const length = Math.min(timestamps.length, closes.length);
-  const points: Array<{ ts: number; close: number }> = [];
+function resolveWindow(params: URLSearchParams, nowTs: number): HistoryWindow | { error: string } {
+  const rangeParam = params.get("range");
+  const fromParam = params.get("from");
+  const toParam = params.get("to");
+  const intervalParam = params.get("interval");
 
-  for (let i = 0; i < length; i += 1) {
-    const ts = timestamps[i];
-    const close = closes[i];
+  const interval = intervalParam === null ? null : parseInterval(intervalParam);
+  if (intervalParam !== null && !interval) {
+    return { error: `Unknown interval: ${intervalParam}` };
+  }
 
-    if (typeof ts !== "number" || !Number.isFinite(ts)) {
-      continue;
+  if (fromParam === null && toParam === null) {
+    const rangeKey = rangeParam ?? "1mo";
+    if (!isRangeKey(rangeKey)) {
+      return { error: `Unknown range: ${rangeKey}` };
     }
-    if (typeof close !== "number" || !Number.isFinite(close)) {
-      continue;
+
+    const preset = RANGE_CONFIG[rangeKey];
+    const sinceTs = nowTs - preset.days * 86_400;
+    const selectedInterval = interval ?? preset.interval;
+    const intervalError = checkInterval(selectedInterval, sinceTs, nowTs, nowTs);
+    if (intervalError) {
+      return { error: intervalError };
     }
 
-    points.push({ ts, close });
+    return {
+      range: rangeKey,
+      key: `${rangeKey}:${selectedInterval}`,
+      interval: selectedInterval,
+      request: { range: preset.range, interval: selectedInterval, sinceTs, untilTs: nowTs },
+      cache: preset.cache,
+    };
+  }
+
+  if (rangeParam !== null) {
+    return { error: "Use either range or from/to, not both" };
+  }
+  if (fromParam === null) {
+    return { error: "from is required when to is set" };
+  }
+
+  const sinceTs = parseDateParam(fromParam, false);
+  const requestedUntil = toParam === null ? nowTs : parseDateParam(toParam, true);
+  if (sinceTs === null || requestedUntil === null) {
+    return { error: "from and to must be YYYY-MM-DD or ISO 8601 timestamps" };
   }
 
-  return points.sort((a, b) => a.ts - b.ts);
+  const untilTs = Math.min(requestedUntil, nowTs);
+  if (sinceTs >= untilTs) {
+    return { error: "from must be before to and in the past" };
+  }
+
+  const selectedInterval = interval ?? pickInterval(sinceTs, untilTs, nowTs);
+  const intervalError = checkInterval(selectedInterval, sinceTs, untilTs, nowTs);
+  if (intervalError) {
+    return { error: intervalError };
+  }
+
+  const closed = untilTs < nowTs - 86_400;
+  return {
+    range: "custom",
+    // Open windows end "now", so they key on the day rather than the second.
+    key: `${toKstDay(sinceTs)}_${closed ? toKstDay(untilTs) : "now"}:${selectedInterval}`,
+    interval: selectedInterval,
+    request: { range: null, interval: selectedInterval, sinceTs, untilTs },
+    cache: closed ? CLOSED_WINDOW_CACHE_POLICY : OPEN_WINDOW_CACHE_POLICY,
+  };
 }
 
-async function fetchChart(symbol: string, range: string, interval: string): Promise<YahooChartResult> {
-  const query = new URLSearchParams({ range, interval }).toString();
-  const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?${query}`;
-  const response = await fetch(url, {
-    cache: "no-store",
+function toExportResponse(
+  points: HistoryPoint[],
+  columns: HistoryColumn[],
+  format: ExportFormat,
+  filename: string,
+): NextResponse {
+  const body = format === "csv" ? toCsv(points, columns) : JSON.stringify(toJsonRows(points, columns), null, 2);
+  return new NextResponse(body, {
     headers: {
-      "User-Agent": "Mozilla/5.0",
+      "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
     },
   });
+}
 
-  if (!response.ok) {
-    throw new Error(`Yahoo request failed for ${symbol} (${response.status})`);
-  }
+// `closes` line up index by index with the points.
+type BenchmarkSeries = {
+  id: Benchmark;
+  source: string;
+  closes: Array<number | null>;
+};
 
-  const data = (await response.json()) as YahooChartResponse;
-  const result = data.chart?.result?.[0];
-  if (!result) {
-    throw new Error(`Yahoo returned empty chart result for ${symbol}`);
-  }
-  return result;
+type LoadedHistory = {
+  points: HistoryPoint[];
+  benchmarks: BenchmarkSeries[];
+  source: string;
+  cache: Record<string, CacheMeta>;
+};
+
+type DomesticHistory = {
+  sinceTs: number;
+  series: Sourced<SeriesPoint[]>;
+};
+
+// KRX closes are one daily series whatever the window, so a single entry holds them from the earliest day any
+// window has asked for up to now; a window reaching back further refetches the whole span once.
+async function loadDomesticHistory(request: HistoryRequest): Promise<CachedResult<Sourced<SeriesPoint[]>>> {
+  const loader = async (): Promise<DomesticHistory> => {
+    const cachedSince = peekCached<DomesticHistory>(DOMESTIC_HISTORY_KEY)?.value.sinceTs ?? request.sinceTs;
+    const sinceTs = Math.min(request.sinceTs, cachedSince);
+    const untilTs = Math.floor(Date.now() / 1000);
+    return { sinceTs, series: await getHistory("krx-gold", { range: null, interval: "1d", sinceTs, untilTs }) };
+  };
+  const { value, meta } = await cached(
+    DOMESTIC_HISTORY_KEY,
+    DOMESTIC_CACHE_POLICY,
+    loader,
+    (entry) => entry.sinceTs <= request.sinceTs,
+  );
+  return { value: { ...value.series, data: sliceToWindow(value.series.data, request) }, meta };
 }
 
-function mergeGoldAndFx(
-  goldSeries: Array<{ ts: number; close: number }>,
-  fxSeries: Array<{ ts: number; close: number }>,
-): Point[] {
-  if (goldSeries.length === 0 || fxSeries.length === 0) {
-    return [];
+// Keeps the close in force at the window's start, which the first bars carry, and drops the days after its end.
+function sliceToWindow(series: SeriesPoint[], { sinceTs, untilTs }: HistoryRequest): SeriesPoint[] {
+  const start = series.findLastIndex((point) => point.ts <= sinceTs);
+  return series.slice(Math.max(start, 0)).filter((point) => point.ts <= untilTs);
+}
+
+// Intraday bars take the KRX close in force at their own time. Daily and longer bars are stamped at
+// their open, so they take the close in force when they end, which for the last bar is the window's end.
+function toDomesticLookup({ interval, request }: HistoryWindow): ((ts: number) => number) | undefined {
+  if (HISTORY_INTERVALS[interval].seconds < HISTORY_INTERVALS["1d"].seconds) {
+    return undefined;
   }
+  return (ts) => Math.min(toBarEnd(ts, interval), request.untilTs);
+}
+
+async function loadMarketHistory(
+  metal: Metal,
+  currency: Currency,
+  benchmarks: Benchmark[],
+  historyWindow: HistoryWindow,
+): Promise<LoadedHistory> {
+  const { request: historyRequest, cache } = historyWindow;
+  const loadSeries = (instrument: Parameters<typeof getHistory>[0], policy: CachePolicy) =>
+    cached(`history:${instrument}:${historyWindow.key}`, policy, () => getHistory(instrument, historyRequest));
 
-  const points: Point[] = [];
-  let fxIndex = 0;
+  // KRW=X is always needed for the KRX cross rate; other quote currencies add their own pair.
+  const { instrument: quoteInstrument } = getCurrency(currency);
+  const crossInstrument = quoteInstrument !== null && quoteInstrument !== "usdkrw" ? quoteInstrument : null;
 
-  for (const goldPoint of goldSeries) {
-    while (fxIndex + 1 < fxSeries.length && fxSeries[fxIndex + 1].ts <= goldPoint.ts) {
-      fxIndex += 1;
+  // Domestic KRX closes only exist for gold, and neither they nor the ratio legs
+  // should take the selected metal's series down with them.
+  // A benchmark that fails to load is left out rather than failing the whole chart.
+  const [metalResult, fxResult, quoteFxResult, domesticResult, goldResult, silverResult, benchmarkResults] =
+    await Promise.all([
+      loadSeries(metal, cache),
+      loadSeries("usdkrw", cache),
+      crossInstrument ? loadSeries(crossInstrument, cache) : null,
+      metal === "gold" ? loadDomesticHistory(historyRequest).catch(() => null) : null,
+      loadSeries("gold", cache).catch(() => null),
+      loadSeries("silver", cache).catch(() => null),
+      Promise.all(benchmarks.map((id) => (id === "usdkrw" ? null : loadSeries(id, cache).catch(() => null)))),
+    ]);
+  const domesticSeries: SeriesPoint[] = domesticResult?.value.data ?? [];
+  const cacheMeta: Record<string, CacheMeta> = { metal: metalResult.meta, fx: fxResult.meta };
+  if (quoteFxResult) {
+    cacheMeta.quoteFx = quoteFxResult.meta;
+  }
+  if (domesticResult) {
+    cacheMeta.domestic = domesticResult.meta;
+  }
+
+  const points = mergeGoldAndFx(
+    metalResult.value.data,
+    fxResult.value.data,
+    domesticSeries,
+    goldResult?.value.data ?? [],
+    silverResult?.value.data ?? [],
+    currency === "USD" ? USD_PER_USD : (quoteFxResult?.value.data ?? fxResult.value.data),
+    toDomesticLookup(historyWindow),
+  );
+  const benchmarkSeries = benchmarks.flatMap((id, index): BenchmarkSeries[] => {
+    // USD/KRW is already merged into every bar, early bars included.
+    if (id === "usdkrw") {
+      return [{ id, source: fxResult.value.source, closes: points.map((point) => point.usdKrw) }];
     }
+    const result = benchmarkResults[index];
+    if (!result) {
+      return [];
+    }
+    cacheMeta[`benchmark:${id}`] = result.meta;
+    return [{ id, source: result.value.source, closes: alignToPoints(points, result.value.data) }];
+  });
 
-    const fxPoint = fxSeries[fxIndex];
-    if (!fxPoint) {
+  const globalSource = [metalResult.value.source, fxResult.value.source, quoteFxResult?.value.source]
+    .filter((value): value is string => value !== undefined)
+    .join(", ");
+  const source =
+    domesticResult && domesticSeries.length > 0
+      ? `Domestic: ${domesticResult.value.source}. Global: ${globalSource}.`
+      : globalSource;
+
+  return { points, benchmarks: benchmarkSeries, source, cache: cacheMeta };
+}
+
+// Recorded snapshots are thinned to the last one per interval bucket; records missing either
+// global leg cannot be converted and are left out.
+async function loadRecordedHistory({ request, interval }: HistoryWindow): Promise<LoadedHistory> {
+  const records = await readSpotRecords(request.sinceTs, request.untilTs);
+  const bucketSeconds = HISTORY_INTERVALS[interval].seconds;
+  const byBucket = new Map<number, HistoryPoint>();
+
+  for (const record of records) {
+    if (record.goldUsdPerOunce === null || record.usdKrw === null) {
       continue;
     }
 
-    const usdPerOunce = goldPoint.close;
-    const usdKrw = fxPoint.close;
-    const krwPerGram = (usdPerOunce * usdKrw) / OUNCE_TO_GRAM;
-
-    points.push({
-      ts: goldPoint.ts,
-      usdPerOunce,
-      usdKrw,
+    const krwPerGram = usdPerOunceToKrwPerGram(record.goldUsdPerOunce, record.usdKrw);
+    const premiumKrwPerGram = record.domesticKrwPerGram === null ? null : record.domesticKrwPerGram - krwPerGram;
+    byBucket.set(Math.floor(record.ts / bucketSeconds), {
+      ts: record.ts,
+      usdPerOunce: record.goldUsdPerOunce,
+      usdKrw: record.usdKrw,
       krwPerGram,
+      domesticKrwPerGram: record.domesticKrwPerGram,
+      premiumKrwPerGram,
+      premiumPercent: premiumKrwPerGram === null ? null : (premiumKrwPerGram / krwPerGram) * 100,
+      goldSilverRatio: null,
+      fxRate: record.usdKrw,
+      perGram: krwPerGram,
+      domesticPerGram: record.domesticKrwPerGram,
+      premiumPerGram: premiumKrwPerGram,
     });
   }
 
-  return points;
+  return {
+    points: [...byBucket.values()].sort((a, b) => a.ts - b.ts),
+    benchmarks: [],
+    source: "Local spot recorder",
+    cache: {},
+  };
 }
 
 export async function GET(request: NextRequest) {
   try {
-    const selected = request.nextUrl.searchParams.get("range") as RangeKey | null;
-    const rangeKey: RangeKey = selected && selected in RANGE_CONFIG ? selected : "1mo";
-    const { range, interval } = RANGE_CONFIG[rangeKey];
+    const params = request.nextUrl.searchParams;
+    const metal = parseMetal(params.get("metal"));
+    if (!metal) {
+      return NextResponse.json({ error: "Unknown metal" }, { status: 400 });
+    }
 
-    const [goldChart, fxChart] = await Promise.all([
-      fetchChart("GC=F", range, interval),
-      fetchChart("KRW=X", range, interval),
-    ]);
+    const currency = parseCurrency(params.get("currency"));
+    if (!currency) {
+      return NextResponse.json({ error: "Unknown currency" }, { status: 400 });
+    }
+
+    // "recorded" serves the local spot recorder's intraday snapshots instead of upstream bars.
+    const mode = params.get("mode");
+    if (mode !== null && mode !== "recorded") {
+      return NextResponse.json({ error: "Unknown mode" }, { status: 400 });
+    }
+    if (mode === "recorded" && metal !== "gold") {
+      return NextResponse.json({ error: "Recorded history is only available for gold" }, { status: 400 });
+    }
+    // The recorder only keeps USD/KRW, so its snapshots cannot be repriced.
+    if (mode === "recorded" && currency !== "KRW") {
+      return NextResponse.json({ error: "Recorded history is only available in KRW" }, { status: 400 });
+    }
+
+    const benchmarks = parseBenchmarks(params.get("benchmarks"));
+    if (!benchmarks) {
+      return NextResponse.json(
+        { error: `Unknown benchmark; use ${BENCHMARKS.map((item) => item.id).join(", ")}` },
+        { status: 400 },
+      );
+    }
+    if (mode === "recorded" && benchmarks.length > 0) {
+      return NextResponse.json({ error: "Benchmarks are not available for recorded history" }, { status: 400 });
+    }
 
-    const goldSeries = parseSeries(goldChart);
-    const fxSeries = parseSeries(fxChart);
-    const points = mergeGoldAndFx(goldSeries, fxSeries);
+    const formatParam = params.get("format");
+    const format = parseExportFormat(formatParam);
+    if (formatParam !== null && !format) {
+      return NextResponse.json({ error: "Unknown format" }, { status: 400 });
+    }
+
+    const columns = parseColumns(params.get("columns"));
+    if (!columns) {
+      return NextResponse.json({ error: "Unknown column" }, { status: 400 });
+    }
+
+    const historyWindow = resolveWindow(params, Math.floor(Date.now() / 1000));
+    if ("error" in historyWindow) {
+      return NextResponse.json({ error: historyWindow.error }, { status: 400 });
+    }
+    const historyRequest = historyWindow.request;
+
+    const { points, benchmarks: benchmarkSeries, source, cache } =
+      mode === "recorded"
+        ? await loadRecordedHistory(historyWindow)
+        : await loadMarketHistory(metal, currency, benchmarks, historyWindow);
+
+    if (format) {
+      const span =
+        historyWindow.range === "custom"
+          ? `${toKstDay(historyRequest.sinceTs)}_${toKstDay(historyRequest.untilTs)}`
+          : historyWindow.range;
+      const label = currency === "KRW" ? span : `${span}-${currency.toLowerCase()}`;
+      return toExportResponse(points, columns, format, getExportFilename(metal, label, format));
+    }
 
     return NextResponse.json(
       {
-        range: rangeKey,
+        metal,
+        currency,
+        range: historyWindow.range,
+        interval: historyRequest.interval,
+        from: new Date(historyRequest.sinceTs * 1000).toISOString(),
+        to: new Date(historyRequest.untilTs * 1000).toISOString(),
         points,
-        source: "Yahoo Finance (GC=F, KRW=X)",
+        benchmarks: benchmarkSeries,
+        source,
+        cache,
       },
       {
         headers: {
@@ -0,0 +1,89 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it } from "vitest";
+import { usdPerOunceToKrwPerGram, type Metal } from "@/lib/metals";
+import type { SpotSnapshot } from "@/lib/spot";
+import { clearQuoteCache, mockUpstream } from "@/test/upstream";
+import { GET } from "./route";
+
+async function getSpot(query = ""): Promise<{ status: number; body: SpotSnapshot & { error?: string } }> {
+  const response = await GET(new NextRequest(`http://localhost/api/spot${query}`));
+  return { status: response.status, body: await response.json() };
+}
+
+beforeEach(() => {
+  clearQuoteCache();
+});
+
+describe("GET /api/spot", () => {
+  it("combines the Naver domestic quote with Yahoo's global quotes", async () => {
+    mockUpstream();
+    const { status, body } = await getSpot();
+    const globalKrwPerGram = usdPerOunceToKrwPerGram(2_345.6, 1_384.5);
+
+    expect(status).toBe(200);
+    expect(body.metal).toBe<Metal>("gold");
+    expect(body.domesticKrwPerGram).toBe(148_520);
+    expect(body.previousDomesticKrwPerGram).toBe(147_270);
+    expect(body.changePercent).toBe(0.85);
+    expect(body.goldPriceUsdPerOunce).toBe(2_345.6);
+    expect(body.usdKrw).toBe(1_384.5);
+    expect(body.globalKrwPerGram).toBeCloseTo(globalKrwPerGram, 8);
+    expect(body.premiumKrwPerGram).toBeCloseTo(148_520 - globalKrwPerGram, 8);
+    expect(body.goldSilverRatio).toBeCloseTo(2_345.6 / 29.5, 10);
+    expect(body.updatedAt).toBe("2024-05-17T15:30:00+09:00");
+    expect(body.sources.gold.source).toBe("Yahoo Finance (GC=F)");
+    expect(body.sources.domestic.session.market).toBe("krx");
+    expect(body.sources.fx.session.market).toBe("fx");
+    expect(body.fxRates).toEqual({ KRW: 1_384.5, USD: 1, JPY: 155.48, CNY: 7.2261, EUR: 0.9203 });
+  });
+
+  it("falls back to Naver when Yahoo fails", async () => {
+    mockUpstream(["GC=F"]);
+    const { body } = await getSpot();
+
+    expect(body.goldPriceUsdPerOunce).toBe(2_345.6);
+    expect(body.sources.gold.status).toBe("ok");
+    expect(body.sources.gold.source).toBe("Naver Finance 국제 금 (COMEX)");
+    expect(body.sources.gold.asOf).toBe("2024-05-17T05:59:58+09:00");
+  });
+
+  it("reports a failed source without failing the snapshot", async () => {
+    mockUpstream(["goldDetail"]);
+    const { status, body } = await getSpot();
+
+    expect(status).toBe(200);
+    expect(body.domesticKrwPerGram).toBeNull();
+    expect(body.premiumKrwPerGram).toBeNull();
+    expect(body.changePercent).toBeNull();
+    expect(body.sources.domestic.status).toBe("error");
+    expect(body.sources.domestic.error).toContain("Naver krx-gold detail request failed (503)");
+    expect(body.globalKrwPerGram).not.toBeNull();
+  });
+
+  it("leaves out a quote currency whose rate is unavailable", async () => {
+    mockUpstream(["JPY=X"]);
+    const { status, body } = await getSpot();
+
+    expect(status).toBe(200);
+    expect(body.fxRates.JPY).toBeNull();
+    expect(body.fxRates.KRW).toBe(1_384.5);
+  });
+
+  it("prices the requested metal", async () => {
+    mockUpstream();
+    const { body } = await getSpot("?metal=silver");
+
+    expect(body.metal).toBe<Metal>("silver");
+    expect(body.metalUsdPerOunce).toBe(29.5);
+    expect(body.metalKrwPerGram).toBeCloseTo(usdPerOunceToKrwPerGram(29.5, 1_384.5), 8);
+    expect(body.metalChangePercent).toBeCloseTo(((29.5 - 29.1) / 29.1) * 100, 10);
+  });
+
+  it("rejects an unknown metal", async () => {
+    mockUpstream();
+    const { status, body } = await getSpot("?metal=copper");
+
+    expect(status).toBe(400);
+    expect(body.error).toBe("Unknown metal");
+  });
+});
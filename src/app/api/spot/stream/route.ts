@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseMetal } from "@/lib/metals";
+import { formatSseEvent, subscribeSpotStream } from "@/lib/spotStream";
+
+export const dynamic = "force-dynamic";
+
+const RETRY_MS = 3000;
+const HEARTBEAT_MS = 15_000;
+
+export async function GET(request: NextRequest) {
+  const metal = parseMetal(request.nextUrl.searchParams.get("metal"));
+  if (!metal) {
+    return NextResponse.json({ error: "Unknown metal" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  const lastEventId = request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId");
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      const unsubscribe = subscribeSpotStream(metal, (event) => send(formatSseEvent(event)), lastEventId);
+      // Comment lines keep proxies from closing an idle connection while quotes are unchanged.
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = () => {};
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime.
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -1,5 +1,8 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Noto_Sans_KR, Space_Grotesk } from "next/font/google";
+import HtmlLang from "@/components/HtmlLang";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
+import { DEFAULT_LOCALE, getMessages } from "@/lib/i18n";
 import "./globals.css";
 
 const notoSansKr = Noto_Sans_KR({
@@ -16,7 +19,19 @@ const spaceGrotesk = Space_Grotesk({
 
 export const metadata: Metadata = {
   title: "Gold Pulse KR",
-  description: "실시간 국내/국제 금 가격 비교 웹 앱",
+  description: getMessages(DEFAULT_LOCALE).meta.description,
+  appleWebApp: {
+    capable: true,
+    title: "Gold Pulse",
+    statusBarStyle: "black-translucent",
+  },
+  icons: {
+    apple: "/icons/icon-192.png",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#0f131b",
 };
 
 export default function RootLayout({
@@ -25,8 +40,10 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="ko">
+    <html lang={DEFAULT_LOCALE}>
       <body className={`${notoSansKr.variable} ${spaceGrotesk.variable}`}>
+        <HtmlLang />
+        <ServiceWorkerRegistration />
         {children}
       </body>
     </html>
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+import { DEFAULT_LOCALE, getMessages } from "@/lib/i18n";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Gold Pulse KR",
+    short_name: "Gold Pulse",
+    description: getMessages(DEFAULT_LOCALE).meta.description,
+    lang: DEFAULT_LOCALE,
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#0f131b",
+    theme_color: "#0f131b",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      { src: "/icons/maskable-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
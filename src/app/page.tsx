@@ -1,310 +1,1337 @@
 ﻿"use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type FormEvent,
+  type PointerEvent,
+} from "react";
+import Link from "next/link";
+import AlertsPanel from "@/components/AlertsPanel";
+import AnalyticsPanel from "@/components/AnalyticsPanel";
+import CalculatorPanel from "@/components/CalculatorPanel";
+import PortfolioPanel from "@/components/PortfolioPanel";
+import { evaluateAlerts } from "@/components/alertStore";
+import { localeStore, useLocale } from "@/components/localeStore";
+import { cacheSpotSnapshot, isOfflineResponse, useOnline } from "@/components/offline";
+import { portfolioLotsStore } from "@/components/portfolioStore";
+import { BENCHMARKS, periodReturn, type Benchmark } from "@/lib/benchmarks";
+import { formatKstTick, niceTicks, pickTickIndices } from "@/lib/chartTicks";
+import { CURRENCIES, convertFromKrw, getCurrency, type Currency } from "@/lib/currencies";
+import { formatKstTimestamp } from "@/lib/historyExport";
+import type { HistoryPoint } from "@/lib/historyMerge";
+import {
+  LOCALES,
+  formatDate,
+  formatDateTime,
+  formatKrw,
+  formatNumber,
+  formatUsd,
+  type Locale,
+  type Messages,
+} from "@/lib/i18n";
+import { bollinger, crossovers, ema, rsi, sma, type Series } from "@/lib/indicators";
+import { getPollDelayMs, type MarketSession } from "@/lib/marketCalendar";
+import { METALS, OUNCE_TO_GRAM, type Metal } from "@/lib/metals";
+import { buildValueSeries, lotDateToTs, type PortfolioLot, type ValuationBasis } from "@/lib/portfolio";
+import type { SourceResult, SourceStatus, SpotSnapshot } from "@/lib/spot";
+import type { SpotChange } from "@/lib/spotStream";
 import styles from "./page.module.css";
 
-type ViewMode = "live" | "history";
+type ViewMode = "live" | "history" | "portfolio";
 type RangeId = "1mo" | "6mo" | "1y" | "10y" | "20y";
 
-type SpotData = {
-  domesticKrwPerGram: number;
-  goldPriceUsdPerOunce: number;
-  usdKrw: number;
-  previousDomesticKrwPerGram: number;
-  changePercent: number;
-  updatedAt: string;
-  source: string;
+type HistorySelection = RangeId | "custom";
+
+type DateWindow = {
+  from: string;
+  to: string;
 };
 
-type HistoryPoint = {
-  ts: number;
-  usdPerOunce: number;
-  usdKrw: number;
-  krwPerGram: number;
+type SpotStreamPayload = {
+  snapshot: SpotSnapshot;
+  changed: SpotChange[];
 };
 
 type HistoryData = {
-  range: RangeId;
+  metal: Metal;
+  currency: Currency;
+  range: HistorySelection;
+  interval: string;
   points: HistoryPoint[];
+  benchmarks: BenchmarkSeries[];
+  source: string;
+};
+
+// Closes line up index by index with the history points; see /api/history.
+type BenchmarkSeries = {
+  id: Benchmark;
   source: string;
+  closes: Array<number | null>;
 };
 
-const ranges: Array<{ id: RangeId; label: string }> = [
-  { id: "1mo", label: "1개월" },
-  { id: "6mo", label: "6개월" },
-  { id: "1y", label: "1년" },
-  { id: "10y", label: "10년" },
-  { id: "20y", label: "20년" },
-];
-
-const OUNCE_TO_GRAM = 31.1034768;
-const AUTO_REFRESH_MS = 3000;
-
-function formatKrw(value: number): string {
-  return new Intl.NumberFormat("ko-KR", {
-    maximumFractionDigits: 0,
-  }).format(value);
+const ranges: RangeId[] = ["1mo", "6mo", "1y", "10y", "20y"];
+
+// Approximate span of each range, for picking the shortest one that covers every lot.
+const RANGE_DAYS: Record<RangeId, number> = { "1mo": 31, "6mo": 183, "1y": 366, "10y": 3653, "20y": 7305 };
+
+const STATUS_ORDER: SourceStatus[] = ["ok", "stale", "error"];
+
+// Kept as reasons rather than text so a language switch re-renders them in the new language.
+type HistoryError = { kind: "load" } | { kind: "query"; reason: string } | { kind: "missingFrom" };
+
+function describeHistoryError(error: HistoryError, t: Messages): string {
+  switch (error.kind) {
+    case "load":
+      return t.errors.history;
+    case "query":
+      return t.errors.historyQuery(error.reason);
+    case "missingFrom":
+      return t.errors.missingFrom;
+  }
+}
+
+function formatPrice(value: number, currency: Currency, locale: Locale): string {
+  return formatNumber(value, locale, getCurrency(currency).digits);
 }
 
-function formatUsd(value: number): string {
-  return new Intl.NumberFormat("en-US", {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(value);
+function formatOptional(value: number | null, formatter: (value: number) => string): string {
+  return value === null ? "-" : formatter(value);
 }
 
 function formatIndex(value: number): string {
   return value.toFixed(1);
 }
 
-function buildLinePath(values: number[], width: number, height: number, pad: number): string {
-  if (values.length === 0) {
+function formatSigned(value: number, digits: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+function isValue(value: number | null): value is number {
+  return value !== null;
+}
+
+// Real KRX closes when the history payload has them, otherwise the converted global price,
+// both in the currency the history was requested in.
+function getDomesticValues(points: HistoryPoint[]): Array<number | null> {
+  const hasDomestic = points.some((p) => p.domesticPerGram !== null);
+  return points.map((p) => (hasDomestic ? p.domesticPerGram : p.perGram));
+}
+
+// Reprices a won-per-gram spot value through the snapshot's dollar rates; null when either rate is missing.
+function fromKrw(spot: SpotSnapshot, currency: Currency, krw: number | null): number | null {
+  if (krw === null || currency === "KRW") {
+    return krw;
+  }
+  const perUsd = spot.fxRates[currency];
+  return spot.usdKrw === null || perUsd === null ? null : convertFromKrw(krw, spot.usdKrw, perUsd);
+}
+
+function toIndexSeries(values: Array<number | null>): Array<number | null> {
+  const base = values.find(isValue);
+  return values.map((value) => (value === null || base === undefined ? null : (value / base) * 100));
+}
+
+type ValueBounds = { min: number; max: number };
+
+function getBounds(values: Array<number | null>): ValueBounds | null {
+  const present = values.filter(isValue);
+  if (present.length === 0) {
+    return null;
+  }
+  return { min: Math.min(...present), max: Math.max(...present) };
+}
+
+function buildLinePath(
+  values: Array<number | null>,
+  width: number,
+  height: number,
+  pad: number,
+  bounds: ValueBounds | null = getBounds(values),
+): string {
+  if (!bounds) {
     return "";
   }
 
-  const min = Math.min(...values);
-  const max = Math.max(...values);
+  const { min, max } = bounds;
   const range = max - min || 1;
   const innerWidth = width - pad * 2;
   const innerHeight = height - pad * 2;
+  const commands: string[] = [];
+  let penDown = false;
 
-  return values
-    .map((value, idx) => {
-      const x = pad + (idx / Math.max(values.length - 1, 1)) * innerWidth;
-      const y = pad + ((max - value) / range) * innerHeight;
-      return `${idx === 0 ? "M" : "L"} ${x.toFixed(2)} ${y.toFixed(2)}`;
-    })
-    .join(" ");
+  values.forEach((value, idx) => {
+    if (value === null) {
+      penDown = false;
+      return;
+    }
+
+    const x = pad + (idx / Math.max(values.length - 1, 1)) * innerWidth;
+    const y = pad + ((max - value) / range) * innerHeight;
+    commands.push(`${penDown ? "L" : "M"} ${x.toFixed(2)} ${y.toFixed(2)}`);
+    penDown = true;
+  });
+
+  return commands.join(" ");
 }
 
-function buildAreaPath(values: number[], width: number, height: number, pad: number): string {
-  const line = buildLinePath(values, width, height, pad);
+function buildAreaPath(
+  values: Array<number | null>,
+  width: number,
+  height: number,
+  pad: number,
+  bounds: ValueBounds | null = getBounds(values),
+): string {
+  const line = buildLinePath(values, width, height, pad, bounds);
   if (!line) {
     return "";
   }
 
-  const leftX = pad;
-  const rightX = width - pad;
+  const innerWidth = width - pad * 2;
+  const lastIdx = Math.max(values.length - 1, 1);
+  const firstValid = values.findIndex(isValue);
+  const lastValid = values.length - 1 - [...values].reverse().findIndex(isValue);
+  const leftX = pad + (firstValid / lastIdx) * innerWidth;
+  const rightX = pad + (lastValid / lastIdx) * innerWidth;
   const bottomY = height - pad;
-  return `${line} L ${rightX} ${bottomY} L ${leftX} ${bottomY} Z`;
+  return `${line} L ${rightX.toFixed(2)} ${bottomY} L ${leftX.toFixed(2)} ${bottomY} Z`;
 }
 
-function TrendChart({ points }: { points: HistoryPoint[] }) {
+function hasMoved(prev: number | null, next: number | null): boolean {
+  return prev !== null && next !== null && Math.abs(next - prev) >= 0.01;
+}
+
+// A converted price is only as healthy as the weaker of its two inputs.
+function combineSources(...results: SourceResult[]): SourceResult {
+  const worst = results.reduce((a, b) => (STATUS_ORDER.indexOf(b.status) > STATUS_ORDER.indexOf(a.status) ? b : a));
+  const errors = results.map((result) => result.error).filter((error): error is string => error !== null);
+  return { ...worst, error: errors.length > 0 ? errors.join(" / ") : null };
+}
+
+function SourceBadge({ result }: { result: SourceResult }) {
+  const { t } = useLocale();
+  const ageSeconds = result.ageMs === null ? null : Math.round(result.ageMs / 1000);
+  const statusClass =
+    result.status === "ok" ? styles.badgeOk : result.status === "stale" ? styles.badgeStale : styles.badgeError;
+
+  return (
+    <span className={`${styles.badge} ${statusClass}`} title={result.error ?? result.source ?? undefined}>
+      {t.sources[result.status]}
+      {result.status === "stale" && ageSeconds !== null && ` · ${t.sources.age(ageSeconds)}`}
+    </span>
+  );
+}
+
+function formatSessionTime(iso: string, locale: Locale): string {
+  return formatDateTime(iso, locale, {
+    timeZone: "Asia/Seoul",
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function SessionBadge({ session }: { session: MarketSession }) {
+  const { locale, t } = useLocale();
+  const stateClass =
+    session.state === "live"
+      ? styles.sessionLive
+      : session.state === "pre-open"
+        ? styles.sessionPreOpen
+        : styles.sessionClosed;
+  const title = session.closesAt
+    ? t.sessions.closesAt(formatSessionTime(session.closesAt, locale))
+    : session.opensAt
+      ? t.sessions.opensAt(formatSessionTime(session.opensAt, locale))
+      : undefined;
+
+  return (
+    <span className={`${styles.badge} ${stateClass}`} title={title}>
+      {t.sessions[session.state]}
+    </span>
+  );
+}
+
+type SeriesChartProps = {
+  values: Array<number | null>;
+  ariaLabel: string;
+  legend: string;
+  formatLatest: (value: number) => string;
+  lineClassName: string;
+  dotClassName: string;
+  // Keeps a dashed zero line in view, for spreads that swing around parity.
+  zeroLine?: boolean;
+};
+
+function SeriesChart({ values, ariaLabel, legend, formatLatest, lineClassName, dotClassName, zeroLine }: SeriesChartProps) {
   const width = 960;
-  const height = 360;
+  const height = 220;
   const pad = 18;
-  const first = points[0];
-  const domesticIndex = points.map((p) => (p.krwPerGram / first.krwPerGram) * 100);
-  const globalIndex = points.map((p) => (p.usdPerOunce / first.usdPerOunce) * 100);
+  const dataBounds = getBounds(values);
+  if (!dataBounds) {
+    return null;
+  }
 
-  const domesticPath = buildLinePath(domesticIndex, width, height, pad);
-  const globalPath = buildLinePath(globalIndex, width, height, pad);
-  const areaPath = buildAreaPath(domesticIndex, width, height, pad);
+  const bounds = zeroLine ? { min: Math.min(dataBounds.min, 0), max: Math.max(dataBounds.max, 0) } : dataBounds;
+  const zeroY = pad + (bounds.max / (bounds.max - bounds.min || 1)) * (height - pad * 2);
+  const latest = values.filter(isValue).at(-1);
 
   return (
     <div className={styles.chartWrap}>
-      <svg viewBox={`0 0 ${width} ${height}`} className={styles.chart} role="img" aria-label="금 가격 추이 차트">
-        <defs>
-          <linearGradient id="domesticFill" x1="0" y1="0" x2="0" y2="1">
-            <stop offset="0%" stopColor="rgba(255, 198, 56, 0.6)" />
-            <stop offset="100%" stopColor="rgba(255, 198, 56, 0)" />
-          </linearGradient>
-        </defs>
-
-        <path d={areaPath} fill="url(#domesticFill)" />
-        <path d={globalPath} className={styles.lineGlobal} />
-        <path d={domesticPath} className={styles.lineDomestic} />
+      <svg viewBox={`0 0 ${width} ${height}`} className={styles.chart} role="img" aria-label={ariaLabel}>
+        {zeroLine && <line x1={pad} x2={width - pad} y1={zeroY} y2={zeroY} className={styles.zeroLine} />}
+        <path d={buildLinePath(values, width, height, pad, bounds)} className={lineClassName} />
       </svg>
 
       <div className={styles.chartLegend}>
         <span className={styles.legendItem}>
-          <span className={`${styles.dot} ${styles.dotDomestic}`} />
-          국내(원화) 지수 {formatIndex(domesticIndex[domesticIndex.length - 1])}
+          <span className={`${styles.dot} ${dotClassName}`} />
+          {legend} {latest === undefined ? "-" : formatLatest(latest)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+type ChartScale = "index" | "price";
+
+type ZoomWindow = {
+  points: HistoryPoint[];
+  start: number;
+  end: number;
+};
+
+const TREND_WIDTH = 960;
+const TREND_HEIGHT = 400;
+const TREND_PAD = 18;
+// Room outside the plot for the Y tick labels and the date row.
+const AXIS_LEFT = 96;
+const AXIS_BOTTOM = 40;
+const PLOT_WIDTH = TREND_WIDTH - AXIS_LEFT;
+const PLOT_HEIGHT = TREND_HEIGHT - AXIS_BOTTOM;
+const RSI_HEIGHT = 150;
+
+type MovingAverageKind = "none" | "sma" | "ema";
+
+const MA_PERIODS = [20, 60, 120] as const;
+
+const MA_LINE_CLASSES: Record<(typeof MA_PERIODS)[number], string> = {
+  20: styles.lineMa20,
+  60: styles.lineMa60,
+  120: styles.lineMa120,
+};
+
+const MA_DOT_CLASSES: Record<(typeof MA_PERIODS)[number], string> = {
+  20: styles.dotMa20,
+  60: styles.dotMa60,
+  120: styles.dotMa120,
+};
+
+const BENCHMARK_LINE_CLASSES: Record<Benchmark, string> = {
+  kospi: styles.lineKospi,
+  sp500: styles.lineSp500,
+  btcusd: styles.lineBtcusd,
+  usdkrw: styles.lineUsdkrw,
+};
+
+const BENCHMARK_DOT_CLASSES: Record<Benchmark, string> = {
+  kospi: styles.dotKospi,
+  sp500: styles.dotSp500,
+  btcusd: styles.dotBtcusd,
+  usdkrw: styles.dotUsdkrw,
+};
+
+function rebase(values: Series, base: number | undefined): Series {
+  return values.map((value) => (value === null || base === undefined ? null : (value / base) * 100));
+}
+
+type TrendChartProps = {
+  points: HistoryPoint[];
+  benchmarks: BenchmarkSeries[];
+  metal: Metal;
+  currency: Currency;
+};
+
+function TrendChart({ points, benchmarks, metal, currency }: TrendChartProps) {
+  const { locale, t } = useLocale();
+  const [scale, setScale] = useState<ChartScale>("index");
+  const [zoom, setZoom] = useState<ZoomWindow | null>(null);
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+  const [maKind, setMaKind] = useState<MovingAverageKind>("none");
+  const [showBands, setShowBands] = useState<boolean>(false);
+  const [showRsi, setShowRsi] = useState<boolean>(false);
+
+  // A zoom belongs to the series it was drawn on, so fresh history starts zoomed out.
+  const activeZoom = zoom && zoom.points === points ? zoom : null;
+  const start = activeZoom?.start ?? 0;
+  const end = activeZoom?.end ?? points.length - 1;
+  const visible = points.slice(start, end + 1);
+  const first = visible[0];
+  const hasDomestic = points.some((p) => p.domesticPerGram !== null);
+  const { label: currencyLabel, unit } = t.currencies[currency];
+  const formatValue = (value: number) => formatPrice(value, currency, locale);
+  const formatWithUnit = (value: number) => t.withUnit(formatValue(value), unit);
+
+  // Indicators run over the whole series so a zoomed view still has their warm-up history behind it.
+  const fullPrimary = getDomesticValues(points);
+  const rawPrimary = fullPrimary.slice(start, end + 1);
+  const toScale = (values: Series) =>
+    scale === "index" ? rebase(values.slice(start, end + 1), rawPrimary.find(isValue)) : values.slice(start, end + 1);
+  const averages =
+    maKind === "none"
+      ? []
+      : MA_PERIODS.map((period) => {
+          const full = maKind === "sma" ? sma(fullPrimary, period) : ema(fullPrimary, period);
+          return { period, full, values: toScale(full) };
+        });
+  const crosses =
+    averages.length > 0
+      ? crossovers(averages[0].full, averages[1].full).filter((cross) => cross.index >= start && cross.index <= end)
+      : [];
+  const bands = showBands ? bollinger(fullPrimary, 20, 2) : null;
+  const upperBand = bands ? toScale(bands.upper) : null;
+  const lowerBand = bands ? toScale(bands.lower) : null;
+  const rsiValues = showRsi ? rsi(fullPrimary, 14).slice(start, end + 1) : null;
+
+  const primary = scale === "index" ? toIndexSeries(rawPrimary) : rawPrimary;
+  // In prices the converted price is only a second line when there is a domestic one to compare it with.
+  const secondary =
+    scale === "index"
+      ? visible.map((p) => (p.usdPerOunce / first.usdPerOunce) * 100)
+      : hasDomestic
+        ? visible.map((p) => p.perGram)
+        : null;
+  // Benchmarks are in their own units, so they only share the index view, each rebased on its first visible close.
+  const overlays =
+    scale === "index"
+      ? benchmarks.map(({ id, closes }) => ({ id, values: toIndexSeries(closes.slice(start, end + 1)) }))
+      : [];
+  const bounds = getBounds([
+    ...primary,
+    ...(secondary ?? []),
+    ...overlays.flatMap((overlay) => overlay.values),
+    ...averages.flatMap((average) => average.values),
+    ...(upperBand ?? []),
+    ...(lowerBand ?? []),
+  ]);
+  const formatTick = scale === "index" ? formatIndex : formatValue;
+  const formatLegend = scale === "index" ? formatIndex : formatWithUnit;
+
+  const lastIdx = Math.max(visible.length - 1, 1);
+  const xAt = (idx: number) => AXIS_LEFT + TREND_PAD + (idx / lastIdx) * (PLOT_WIDTH - TREND_PAD * 2);
+  const yAt = (value: number) =>
+    bounds
+      ? TREND_PAD + ((bounds.max - value) / (bounds.max - bounds.min || 1)) * (PLOT_HEIGHT - TREND_PAD * 2)
+      : 0;
+
+  const toPointIndex = (event: PointerEvent<SVGSVGElement>): number => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * TREND_WIDTH;
+    const ratio = (x - AXIS_LEFT - TREND_PAD) / (PLOT_WIDTH - TREND_PAD * 2);
+    return Math.round(Math.min(Math.max(ratio, 0), 1) * (visible.length - 1));
+  };
+
+  const onPointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    if (event.pointerType === "mouse" && event.button !== 0) {
+      return;
+    }
+    const idx = toPointIndex(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ from: idx, to: idx });
+    setHoverIdx(idx);
+  };
+
+  const onPointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const idx = toPointIndex(event);
+    setHoverIdx(idx);
+    if (drag) {
+      setDrag({ from: drag.from, to: idx });
+    }
+  };
+
+  const onPointerUp = () => {
+    if (drag && Math.abs(drag.to - drag.from) >= 2) {
+      const offset = activeZoom?.start ?? 0;
+      setZoom({
+        points,
+        start: offset + Math.min(drag.from, drag.to),
+        end: offset + Math.max(drag.from, drag.to),
+      });
+      setHoverIdx(null);
+    }
+    setDrag(null);
+  };
+
+  // Touch pointers "leave" as soon as the finger lifts; keep their tooltip until the next touch.
+  const onPointerLeave = (event: PointerEvent<SVGSVGElement>) => {
+    if (event.pointerType === "mouse" && !drag) {
+      setHoverIdx(null);
+    }
+  };
+
+  const hovered = hoverIdx === null ? undefined : visible[hoverIdx];
+  const spanSeconds = visible[visible.length - 1].ts - first.ts;
+  const latestPrimary = primary.filter(isValue).at(-1);
+  const latestSecondary = secondary?.filter(isValue).at(-1);
+  const latestRsi = rsiValues?.filter(isValue).at(-1);
+
+  return (
+    <div className={styles.chartWrap}>
+      <div className={styles.chartControls}>
+        <span className={styles.chartToggle}>
+          <button
+            type="button"
+            className={scale === "index" ? styles.chartToggleActive : undefined}
+            onClick={() => setScale("index")}
+          >
+            {t.chart.index}
+          </button>
+          <button
+            type="button"
+            className={scale === "price" ? styles.chartToggleActive : undefined}
+            onClick={() => setScale("price")}
+          >
+            {unit}/g
+          </button>
         </span>
+        {activeZoom ? (
+          <button type="button" className={styles.chartReset} onClick={() => setZoom(null)}>
+            {t.chart.resetZoom}
+          </button>
+        ) : (
+          <span className={styles.chartHint}>{t.chart.dragHint}</span>
+        )}
+      </div>
+
+      <div className={styles.chartControls}>
+        <span className={styles.chartToggle}>
+          {(["none", "sma", "ema"] as const).map((kind) => (
+            <button
+              type="button"
+              key={kind}
+              className={maKind === kind ? styles.chartToggleActive : undefined}
+              onClick={() => setMaKind(kind)}
+            >
+              {kind === "none" ? t.chart.maOff : kind.toUpperCase()}
+            </button>
+          ))}
+        </span>
+        <span className={styles.chartToggle}>
+          <button
+            type="button"
+            className={showBands ? styles.chartToggleActive : undefined}
+            onClick={() => setShowBands((current) => !current)}
+          >
+            {t.chart.bands}
+          </button>
+          <button
+            type="button"
+            className={showRsi ? styles.chartToggleActive : undefined}
+            onClick={() => setShowRsi((current) => !current)}
+          >
+            RSI
+          </button>
+        </span>
+      </div>
+
+      <div className={styles.trendPlot}>
+        <svg
+          viewBox={`0 0 ${TREND_WIDTH} ${TREND_HEIGHT}`}
+          className={`${styles.chart} ${styles.trendSvg}`}
+          role="img"
+          aria-label={t.chart.ariaLabel(t.metals[metal])}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={() => setDrag(null)}
+          onPointerLeave={onPointerLeave}
+        >
+          <defs>
+            <linearGradient id="domesticFill" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="0%" stopColor="rgba(255, 198, 56, 0.6)" />
+              <stop offset="100%" stopColor="rgba(255, 198, 56, 0)" />
+            </linearGradient>
+          </defs>
+
+          {bounds &&
+            niceTicks(bounds.min, bounds.max).map((tick) => (
+              <g key={`y-${tick}`}>
+                <line x1={AXIS_LEFT} x2={TREND_WIDTH} y1={yAt(tick)} y2={yAt(tick)} className={styles.gridLine} />
+                <text
+                  x={AXIS_LEFT - 10}
+                  y={yAt(tick)}
+                  className={styles.axisLabel}
+                  textAnchor="end"
+                  dominantBaseline="middle"
+                >
+                  {formatTick(tick)}
+                </text>
+              </g>
+            ))}
+          {pickTickIndices(visible.length).map((idx) => (
+            <g key={`x-${idx}`}>
+              <line x1={xAt(idx)} x2={xAt(idx)} y1={0} y2={PLOT_HEIGHT} className={styles.gridLine} />
+              <text x={xAt(idx)} y={TREND_HEIGHT - 10} className={styles.axisLabel} textAnchor="middle">
+                {formatKstTick(visible[idx].ts, spanSeconds)}
+              </text>
+            </g>
+          ))}
+
+          <g transform={`translate(${AXIS_LEFT} 0)`}>
+            <path d={buildAreaPath(primary, PLOT_WIDTH, PLOT_HEIGHT, TREND_PAD, bounds)} fill="url(#domesticFill)" />
+            {upperBand && lowerBand && (
+              <>
+                <path
+                  d={buildLinePath(upperBand, PLOT_WIDTH, PLOT_HEIGHT, TREND_PAD, bounds)}
+                  className={styles.lineBand}
+                />
+                <path
+                  d={buildLinePath(lowerBand, PLOT_WIDTH, PLOT_HEIGHT, TREND_PAD, bounds)}
+                  className={styles.lineBand}
+                />
+              </>
+            )}
+            {overlays.map((overlay) => (
+              <path
+                key={overlay.id}
+                d={buildLinePath(overlay.values, PLOT_WIDTH, PLOT_HEIGHT, TREND_PAD, bounds)}
+                className={BENCHMARK_LINE_CLASSES[overlay.id]}
+              />
+            ))}
+            {secondary && (
+              <path
+                d={buildLinePath(secondary, PLOT_WIDTH, PLOT_HEIGHT, TREND_PAD, bounds)}
+                className={styles.lineGlobal}
+              />
+            )}
+            <path
+              d={buildLinePath(primary, PLOT_WIDTH, PLOT_HEIGHT, TREND_PAD, bounds)}
+              className={styles.lineDomestic}
+            />
+            {averages.map((average) => (
+              <path
+                key={average.period}
+                d={buildLinePath(average.values, PLOT_WIDTH, PLOT_HEIGHT, TREND_PAD, bounds)}
+                className={MA_LINE_CLASSES[average.period]}
+              />
+            ))}
+          </g>
+
+          {crosses.map((cross) => {
+            const value = averages[0].values[cross.index - start];
+            if (value === null) {
+              return null;
+            }
+            const x = xAt(cross.index - start);
+            const y = yAt(value);
+            return (
+              <path
+                key={`cross-${cross.index}`}
+                d={
+                  cross.direction === "up"
+                    ? `M ${x} ${y - 4} l -9 16 h 18 Z`
+                    : `M ${x} ${y + 4} l -9 -16 h 18 Z`
+                }
+                className={cross.direction === "up" ? styles.crossUp : styles.crossDown}
+              >
+                <title>{cross.direction === "up" ? t.chart.goldenCross : t.chart.deadCross}</title>
+              </path>
+            );
+          })}
+
+          {drag && drag.from !== drag.to && (
+            <rect
+              x={xAt(Math.min(drag.from, drag.to))}
+              y={0}
+              width={Math.abs(xAt(drag.to) - xAt(drag.from))}
+              height={PLOT_HEIGHT}
+              className={styles.selection}
+            />
+          )}
+
+          {hoverIdx !== null && hovered && (
+            <g>
+              <line x1={xAt(hoverIdx)} x2={xAt(hoverIdx)} y1={0} y2={PLOT_HEIGHT} className={styles.crosshair} />
+              {secondary?.[hoverIdx] != null && (
+                <circle cx={xAt(hoverIdx)} cy={yAt(secondary[hoverIdx])} r={6} className={styles.hoverDotGlobal} />
+              )}
+              {primary[hoverIdx] !== null && (
+                <circle cx={xAt(hoverIdx)} cy={yAt(primary[hoverIdx])} r={7} className={styles.hoverDotDomestic} />
+              )}
+            </g>
+          )}
+        </svg>
+
+        {hoverIdx !== null && hovered && (
+          <div
+            className={styles.tooltip}
+            style={
+              xAt(hoverIdx) / TREND_WIDTH > 0.6
+                ? { right: `${100 - (xAt(hoverIdx) / TREND_WIDTH) * 100 + 2}%` }
+                : { left: `${(xAt(hoverIdx) / TREND_WIDTH) * 100 + 2}%` }
+            }
+          >
+            <time>{formatKstTimestamp(hovered.ts)} KST</time>
+            {hovered.domesticPerGram !== null && (
+              <span>
+                {t.chart.domesticGram} {formatWithUnit(hovered.domesticPerGram)}
+              </span>
+            )}
+            <span>
+              {t.chart.convertedGram(currencyLabel)} {formatWithUnit(hovered.perGram)}
+            </span>
+            <span>
+              {t.chart.globalOunce} ${formatUsd(hovered.usdPerOunce, locale)} / oz
+            </span>
+            <span>
+              {t.live.usdKrw} {formatUsd(hovered.usdKrw, locale)}
+            </span>
+            {currency !== "KRW" && currency !== "USD" && (
+              <span>
+                {t.live.perUsd(unit)} {formatUsd(hovered.fxRate, locale)}
+              </span>
+            )}
+            {averages.map((average) => {
+              const value = average.full[start + hoverIdx];
+              return (
+                value !== null && (
+                  <span key={average.period}>
+                    {maKind.toUpperCase()} {average.period} {formatWithUnit(value)}
+                  </span>
+                )
+              );
+            })}
+            {overlays.map((overlay) => {
+              const value = overlay.values[hoverIdx];
+              return (
+                value !== null && (
+                  <span key={overlay.id}>
+                    {t.benchmarks[overlay.id]} {formatIndex(value)}
+                  </span>
+                )
+              );
+            })}
+            {rsiValues?.[hoverIdx] != null && <span>RSI {rsiValues[hoverIdx].toFixed(1)}</span>}
+          </div>
+        )}
+      </div>
+
+      {rsiValues && (
+        <svg
+          viewBox={`0 0 ${TREND_WIDTH} ${RSI_HEIGHT}`}
+          className={`${styles.chart} ${styles.rsiPanel}`}
+          role="img"
+          aria-label={t.chart.rsiAriaLabel}
+        >
+          {[30, 50, 70].map((level) => {
+            const y = TREND_PAD + ((100 - level) / 100) * (RSI_HEIGHT - TREND_PAD * 2);
+            return (
+              <g key={level}>
+                <line
+                  x1={AXIS_LEFT}
+                  x2={TREND_WIDTH}
+                  y1={y}
+                  y2={y}
+                  className={level === 50 ? styles.gridLine : styles.rsiLevel}
+                />
+                <text x={AXIS_LEFT - 10} y={y} className={styles.axisLabel} textAnchor="end" dominantBaseline="middle">
+                  {level}
+                </text>
+              </g>
+            );
+          })}
+          <g transform={`translate(${AXIS_LEFT} 0)`}>
+            <path
+              d={buildLinePath(rsiValues, PLOT_WIDTH, RSI_HEIGHT, TREND_PAD, { min: 0, max: 100 })}
+              className={styles.lineRsi}
+            />
+          </g>
+          {hoverIdx !== null && (
+            <line x1={xAt(hoverIdx)} x2={xAt(hoverIdx)} y1={0} y2={RSI_HEIGHT} className={styles.crosshair} />
+          )}
+        </svg>
+      )}
+
+      <div className={styles.chartLegend}>
         <span className={styles.legendItem}>
-          <span className={`${styles.dot} ${styles.dotGlobal}`} />
-          국제(달러) 지수 {formatIndex(globalIndex[globalIndex.length - 1])}
+          <span className={`${styles.dot} ${styles.dotDomestic}`} />
+          {scale === "index"
+            ? hasDomestic
+              ? t.chart.domesticIndex(currencyLabel)
+              : t.chart.convertedIndex(currencyLabel)
+            : hasDomestic
+              ? t.chart.domesticGram
+              : t.chart.convertedGram(currencyLabel)}{" "}
+          {latestPrimary === undefined ? "-" : formatLegend(latestPrimary)}
         </span>
+        {secondary && (
+          <span className={styles.legendItem}>
+            <span className={`${styles.dot} ${styles.dotGlobal}`} />
+            {scale === "index" ? t.chart.globalIndex : t.chart.convertedGram(currencyLabel)}{" "}
+            {latestSecondary === undefined ? "-" : formatLegend(latestSecondary)}
+          </span>
+        )}
+        {averages.map((average) => {
+          const latest = average.values.filter(isValue).at(-1);
+          return (
+            <span key={average.period} className={styles.legendItem}>
+              <span className={`${styles.dot} ${MA_DOT_CLASSES[average.period]}`} />
+              {maKind.toUpperCase()} {average.period} {latest === undefined ? "-" : formatLegend(latest)}
+            </span>
+          );
+        })}
+        {overlays.map((overlay) => {
+          const latest = overlay.values.filter(isValue).at(-1);
+          return (
+            <span key={overlay.id} className={styles.legendItem}>
+              <span className={`${styles.dot} ${BENCHMARK_DOT_CLASSES[overlay.id]}`} />
+              {t.benchmarks[overlay.id]} {latest === undefined ? "-" : formatIndex(latest)}
+            </span>
+          );
+        })}
+        {scale === "price" && benchmarks.length > 0 && (
+          <span className={styles.legendItem}>{t.chart.benchmarksIndexOnly}</span>
+        )}
+        {bands && (
+          <span className={styles.legendItem}>
+            <span className={`${styles.dot} ${styles.dotBand}`} />
+            {t.chart.bandsLegend}
+          </span>
+        )}
+        {rsiValues && (
+          <span className={styles.legendItem}>
+            <span className={`${styles.dot} ${styles.dotRsi}`} />
+            RSI(14) {latestRsi === undefined ? "-" : latestRsi.toFixed(1)}
+          </span>
+        )}
       </div>
     </div>
   );
 }
 
+function getPremiumStats(points: HistoryPoint[]) {
+  const values = points.map((p) => p.premiumPercent).filter(isValue);
+  if (values.length === 0) {
+    return null;
+  }
+
+  return {
+    high: Math.max(...values),
+    low: Math.min(...values),
+    average: values.reduce((sum, value) => sum + value, 0) / values.length,
+  };
+}
+
+function getPortfolioRange(lots: PortfolioLot[]): RangeId {
+  const firstTs = Math.min(...lots.map((lot) => lotDateToTs(lot.date)));
+  const days = (Date.now() / 1000 - firstTs) / 86_400;
+  return ranges.find((id) => RANGE_DAYS[id] >= days) ?? "20y";
+}
+
 export default function Home() {
+  const { locale, t } = useLocale();
+  const online = useOnline();
   const [mode, setMode] = useState<ViewMode>("live");
-  const [range, setRange] = useState<RangeId>("1mo");
-  const [spot, setSpot] = useState<SpotData | null>(null);
+  const [range, setRange] = useState<HistorySelection>("1mo");
+  const [customWindow, setCustomWindow] = useState<DateWindow>({ from: "", to: "" });
+  const [draftWindow, setDraftWindow] = useState<DateWindow>({ from: "", to: "" });
+  const [pickerOpen, setPickerOpen] = useState<boolean>(false);
+  const [metal, setMetal] = useState<Metal>("gold");
+  const [currency, setCurrency] = useState<Currency>("KRW");
+  const [benchmarks, setBenchmarks] = useState<Benchmark[]>([]);
+  const [spot, setSpot] = useState<SpotSnapshot | null>(null);
   const [history, setHistory] = useState<HistoryData | null>(null);
   const [spotLoading, setSpotLoading] = useState<boolean>(true);
   const [historyLoading, setHistoryLoading] = useState<boolean>(true);
-  const [spotError, setSpotError] = useState<string | null>(null);
-  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [connectionError, setConnectionError] = useState<boolean>(false);
+  const [historyError, setHistoryError] = useState<HistoryError | null>(null);
+  // Whether the service worker answered from its cache because the network was unreachable.
+  const [spotFromCache, setSpotFromCache] = useState<boolean>(false);
+  const [historyFromCache, setHistoryFromCache] = useState<boolean>(false);
+  const [portfolioBasis, setPortfolioBasis] = useState<ValuationBasis>("domestic");
+  const [portfolioHistory, setPortfolioHistory] = useState<HistoryData | null>(null);
   const [domesticFlashKey, setDomesticFlashKey] = useState<number>(0);
   const [globalFlashKey, setGlobalFlashKey] = useState<number>(0);
-  const prevSpotRef = useRef<SpotData | null>(null);
+  const prevSpotRef = useRef<SpotSnapshot | null>(null);
+  const lots = useSyncExternalStore(
+    portfolioLotsStore.subscribe,
+    portfolioLotsStore.get,
+    portfolioLotsStore.getServerSnapshot,
+  );
+  const metalRef = useRef<Metal>("gold");
+
+  const applySpot = useCallback((payload: SpotSnapshot, changed: SpotChange[], fromCache = false) => {
+    // A poll for the previously selected metal can land after the switch.
+    if (payload.metal !== metalRef.current) {
+      return;
+    }
+
+    if (changed.includes("domestic")) {
+      setDomesticFlashKey((current) => current + 1);
+    }
+    if (changed.includes("global")) {
+      setGlobalFlashKey((current) => current + 1);
+    }
 
-  const fetchSpot = useCallback(async () => {
+    prevSpotRef.current = payload;
+    setSpot(payload);
+    evaluateAlerts(payload);
+    setSpotFromCache(fromCache);
+    setConnectionError(false);
+    setSpotLoading(false);
+  }, []);
+
+  // Polling fallback for browsers without EventSource; the stream reports changes itself.
+  const fetchSpot = useCallback(async (selectedMetal: Metal): Promise<SpotSnapshot | null> => {
     try {
-      const response = await fetch("/api/spot", { cache: "no-store" });
+      const response = await fetch(`/api/spot?metal=${selectedMetal}`, { cache: "no-store" });
       if (!response.ok) {
-        throw new Error("실시간 데이터를 불러오지 못했습니다.");
+        throw new Error(`Spot request failed (${response.status})`);
       }
-      const payload = (await response.json()) as SpotData;
+      const payload = (await response.json()) as SpotSnapshot;
       const prevSpot = prevSpotRef.current;
+      const changed: SpotChange[] = [];
 
       if (prevSpot) {
-        const prevGlobalKrwPerGram = (prevSpot.goldPriceUsdPerOunce * prevSpot.usdKrw) / OUNCE_TO_GRAM;
-        const nextGlobalKrwPerGram = (payload.goldPriceUsdPerOunce * payload.usdKrw) / OUNCE_TO_GRAM;
-
-        if (Math.abs(payload.domesticKrwPerGram - prevSpot.domesticKrwPerGram) >= 0.01) {
-          setDomesticFlashKey((current) => current + 1);
+        if (hasMoved(prevSpot.domesticKrwPerGram, payload.domesticKrwPerGram)) {
+          changed.push("domestic");
         }
 
-        if (Math.abs(nextGlobalKrwPerGram - prevGlobalKrwPerGram) >= 0.01) {
-          setGlobalFlashKey((current) => current + 1);
+        if (hasMoved(prevSpot.metalKrwPerGram, payload.metalKrwPerGram)) {
+          changed.push("global");
         }
       }
 
-      prevSpotRef.current = payload;
-      setSpot(payload);
-      setSpotError(null);
-    } catch (error) {
-      setSpotError(error instanceof Error ? error.message : "실시간 데이터를 불러오지 못했습니다.");
+      applySpot(payload, changed, isOfflineResponse(response));
+      return payload;
+    } catch {
+      setConnectionError(true);
+      return null;
     } finally {
       setSpotLoading(false);
     }
-  }, []);
+  }, [applySpot]);
 
-  const fetchHistory = useCallback(async (selectedRange: RangeId) => {
+  const fetchHistory = useCallback(async (query: string) => {
     try {
       setHistoryLoading(true);
-      const response = await fetch(`/api/history?range=${selectedRange}`, { cache: "no-store" });
+      const response = await fetch(`/api/history?${query}`, { cache: "no-store" });
       if (!response.ok) {
-        throw new Error("히스토리 데이터를 불러오지 못했습니다.");
+        // Bad windows come back as 400 with a reason worth showing; anything else is generic.
+        const body = (await response.json().catch(() => null)) as { error?: string } | null;
+        setHistoryError(
+          response.status === 400 && body?.error ? { kind: "query", reason: body.error } : { kind: "load" },
+        );
+        return;
       }
       const payload = (await response.json()) as HistoryData;
       setHistory(payload);
+      setHistoryFromCache(isOfflineResponse(response));
       setHistoryError(null);
-    } catch (error) {
-      setHistoryError(error instanceof Error ? error.message : "히스토리 데이터를 불러오지 못했습니다.");
+    } catch {
+      setHistoryError({ kind: "load" });
     } finally {
       setHistoryLoading(false);
     }
   }, []);
 
   useEffect(() => {
-    fetchSpot();
-    const timer = window.setInterval(fetchSpot, AUTO_REFRESH_MS);
-    return () => window.clearInterval(timer);
-  }, [fetchSpot]);
+    let pollTimer: number | null = null;
+    let stopped = false;
+    // Backs off while every market behind the quote is closed; see getPollDelayMs.
+    const poll = async () => {
+      const payload = await fetchSpot(metal);
+      if (!stopped) {
+        const { domestic, metal: metalSource, fx } = payload?.sources ?? {};
+        const sessions = [domestic, metalSource, fx].flatMap((source) => (source ? [source.session] : []));
+        pollTimer = window.setTimeout(() => void poll(), getPollDelayMs(sessions, Date.now()));
+      }
+    };
+    const startPolling = () => {
+      if (pollTimer === null) {
+        pollTimer = window.setTimeout(() => void poll(), 0);
+      }
+    };
+    const stopPolling = () => {
+      stopped = true;
+      if (pollTimer !== null) {
+        window.clearTimeout(pollTimer);
+      }
+    };
+
+    // Offline the stream can only fail: show the service worker's last snapshot once, and let the
+    // switch back to online reopen the stream for fresh quotes.
+    if (!online) {
+      if (prevSpotRef.current?.metal !== metal) {
+        void fetchSpot(metal);
+      }
+      return stopPolling;
+    }
+
+    if (typeof window.EventSource === "undefined") {
+      startPolling();
+      return stopPolling;
+    }
+
+    const source = new EventSource(`/api/spot/stream?metal=${metal}`);
+    source.addEventListener("spot", (event) => {
+      const { snapshot, changed } = JSON.parse((event as MessageEvent<string>).data) as SpotStreamPayload;
+      applySpot(snapshot, changed);
+      cacheSpotSnapshot(snapshot);
+    });
+    source.addEventListener("spot-error", () => {
+      setConnectionError(true);
+      setSpotLoading(false);
+    });
+    // EventSource retries on its own; only a closed stream means we have to poll instead.
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        startPolling();
+      }
+    };
 
+    return () => {
+      source.close();
+      stopPolling();
+    };
+  }, [applySpot, fetchSpot, metal, online]);
+
+  const historyWindowQuery =
+    range === "custom" ? `from=${customWindow.from}${customWindow.to ? `&to=${customWindow.to}` : ""}` : `range=${range}`;
+  const benchmarkQuery = benchmarks.length > 0 ? `&benchmarks=${benchmarks.join(",")}` : "";
+  const historyQuery = `${historyWindowQuery}&metal=${metal}&currency=${currency}${benchmarkQuery}`;
+
+  // Kept in BENCHMARKS order so the same selection always makes the same query.
+  const toggleBenchmark = (id: Benchmark) => {
+    const selected = (item: Benchmark) => (item === id ? !benchmarks.includes(item) : benchmarks.includes(item));
+    setBenchmarks(BENCHMARKS.map((item) => item.id).filter(selected));
+  };
+
+  // Refetched when connectivity changes, so a window served from the cache is replaced once the network is back.
   useEffect(() => {
-    void fetchHistory(range);
-  }, [fetchHistory, range]);
+    void fetchHistory(historyQuery);
+  }, [fetchHistory, historyQuery, online]);
+
+  const applyCustomWindow = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draftWindow.from) {
+      setHistoryError({ kind: "missingFrom" });
+      return;
+    }
+    setCustomWindow(draftWindow);
+    setRange("custom");
+  };
+
+  const portfolioRange = lots.length > 0 ? getPortfolioRange(lots) : null;
+
+  // Holdings are gold, so the value chart always uses gold history whatever metal is selected.
+  useEffect(() => {
+    if (mode !== "portfolio" || portfolioRange === null) {
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/history?range=${portfolioRange}&metal=gold`, { cache: "no-store" })
+      .then((response) => (response.ok ? (response.json() as Promise<HistoryData>) : null))
+      .then((payload) => {
+        if (!cancelled && payload) {
+          setPortfolioHistory(payload);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, portfolioRange]);
+
+  const selectMetal = (next: Metal) => {
+    if (next === metal) {
+      return;
+    }
+
+    metalRef.current = next;
+    prevSpotRef.current = null;
+    setMetal(next);
+    setSpot(null);
+    setSpotLoading(true);
+  };
 
   const stats = useMemo(() => {
     if (!history?.points.length) {
       return null;
     }
 
-    const values = history.points.map((p) => p.krwPerGram);
+    const values = getDomesticValues(history.points).filter(isValue);
+    if (values.length === 0) {
+      return null;
+    }
+
     const first = history.points[0];
     const last = history.points[history.points.length - 1];
     const high = Math.max(...values);
     const low = Math.min(...values);
-    const periodChange = ((last.krwPerGram - first.krwPerGram) / first.krwPerGram) * 100;
+    const periodChange = ((values[values.length - 1] - values[0]) / values[0]) * 100;
 
     return {
       high,
       low,
-      latest: last.krwPerGram,
+      latest: values[values.length - 1],
       periodChange,
-      from: new Date(first.ts * 1000).toLocaleDateString("ko-KR"),
-      to: new Date(last.ts * 1000).toLocaleDateString("ko-KR"),
+      hasDomestic: history.points.some((p) => p.domesticPerGram !== null),
+      hasRatio: history.points.some((p) => p.goldSilverRatio !== null),
+      premium: getPremiumStats(history.points),
+      benchmarks: history.benchmarks.map((benchmark) => ({ id: benchmark.id, change: periodReturn(benchmark.closes) })),
+      from: formatDate(first.ts * 1000, locale),
+      to: formatDate(last.ts * 1000, locale),
     };
-  }, [history]);
+  }, [history, locale]);
+
+  const portfolioValues = useMemo(() => {
+    if (!portfolioHistory || lots.length === 0) {
+      return null;
+    }
+
+    const firstTs = Math.min(...lots.map((lot) => lotDateToTs(lot.date)));
+    const points = portfolioHistory.points.map((p) => ({
+      ts: p.ts,
+      krwPerGram: portfolioBasis === "domestic" ? p.domesticKrwPerGram : p.krwPerGram,
+    }));
+    return buildValueSeries(lots, points)
+      .filter((point) => point.ts >= firstTs)
+      .map((point) => point.value);
+  }, [lots, portfolioBasis, portfolioHistory]);
 
   const deltaSign = (spot?.changePercent ?? 0) >= 0 ? "+" : "";
+  const globalSource = spot ? combineSources(spot.sources.metal, spot.sources.fx) : null;
+  const marketsClosed =
+    spot !== null &&
+    [spot.sources.domestic, spot.sources.metal, spot.sources.fx].every((source) => source.session.state === "closed");
+  const metalLabel = t.metals[metal];
+  const isGold = metal === "gold";
+  const selectedCurrency = t.currencies[currency];
+  const formatSelected = (value: number) => formatPrice(value, currency, locale);
+  const formatDollars = (value: number) => formatUsd(value, locale);
+  // History is repriced by the server, so its labels follow the loaded payload rather than the selector.
+  const historyCurrencyId = history?.currency ?? "KRW";
+  const historyCurrency = t.currencies[historyCurrencyId];
+  const formatHistoryPrice = (value: number) =>
+    t.withUnit(formatPrice(value, historyCurrencyId, locale), historyCurrency.unit);
 
   return (
     <div className={styles.shell}>
       <div className={styles.noise} />
       <main className={styles.app}>
         <header className={styles.header}>
-          <p className={styles.kicker}>Gold Pulse KR</p>
-          <h1>실시간 금 가격 대시보드</h1>
-          <p className={styles.subtitle}>국내 금 99.99_1kg 금현물(1g 환산)과 국제 금값을 동시에 확인</p>
+          <div className={styles.headerTop}>
+            <p className={styles.kicker}>Gold Pulse KR</p>
+            <span className={styles.localeToggle} role="group" aria-label={t.meta.language}>
+              {LOCALES.map((item) => (
+                <button
+                  type="button"
+                  key={item.id}
+                  lang={item.id}
+                  className={locale === item.id ? styles.localeActive : undefined}
+                  onClick={() => localeStore.set(item.id)}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </span>
+          </div>
+          <h1>{t.header.title(metalLabel)}</h1>
+          <p className={styles.subtitle}>{isGold ? t.header.subtitleGold : t.header.subtitleMetal(metalLabel)}</p>
         </header>
 
+        <div className={styles.metalTabs}>
+          {METALS.map((item) => (
+            <button
+              type="button"
+              key={item.id}
+              className={metal === item.id ? `${styles.pill} ${styles.pillActive}` : styles.pill}
+              onClick={() => selectMetal(item.id)}
+            >
+              {t.metals[item.id]}
+            </button>
+          ))}
+        </div>
+
+        <div className={styles.currencyTabs} role="group" aria-label={t.header.currencies}>
+          {CURRENCIES.map((item) => (
+            <button
+              type="button"
+              key={item.id}
+              className={currency === item.id ? `${styles.pill} ${styles.pillActive}` : styles.pill}
+              onClick={() => setCurrency(item.id)}
+              title={t.header.currencyTitle(t.currencies[item.id].label)}
+            >
+              {item.id}
+            </button>
+          ))}
+        </div>
+
+        {(!online || spotFromCache || historyFromCache) && (
+          <p className={styles.offlineBanner} role="status">
+            {spot
+              ? t.offline.showingFrom(formatDateTime(spot.updatedAt, locale, { hour: "2-digit", minute: "2-digit" }))
+              : t.offline.noData}
+          </p>
+        )}
+
         <nav className={styles.modeTabs}>
           <button
             type="button"
             className={mode === "live" ? `${styles.tabBtn} ${styles.active}` : styles.tabBtn}
             onClick={() => setMode("live")}
           >
-            실시간
+            {t.modes.live}
           </button>
           <button
             type="button"
             className={mode === "history" ? `${styles.tabBtn} ${styles.active}` : styles.tabBtn}
             onClick={() => setMode("history")}
           >
-            과거 추이
+            {t.modes.history}
+          </button>
+          <button
+            type="button"
+            className={mode === "portfolio" ? `${styles.tabBtn} ${styles.active}` : styles.tabBtn}
+            onClick={() => setMode("portfolio")}
+          >
+            {t.modes.portfolio}
           </button>
         </nav>
 
         {mode === "live" && (
           <section className={styles.panel}>
-
-            {spotError && <p className={styles.error}>{spotError}</p>}
+            {connectionError && <p className={styles.error}>{t.errors.spot}</p>}
 
             {spotLoading && !spot ? (
-              <p className={styles.loading}>실시간 시세를 불러오는 중...</p>
+              <p className={styles.loading}>{t.live.loading}</p>
             ) : (
               spot && (
                 <>
                   <div className={styles.compareGrid}>
-                    <article className={`${styles.compareCard} ${styles.compareCardDomestic}`}>
-                      <p className={styles.compareLabel}>국내 금값 (금 99.99_1kg 금현물)</p>
-                      <h2 key={`domestic-${domesticFlashKey}`} className={`${styles.compareValue} ${styles.valueFlash}`}>
-                        {formatKrw(spot.domesticKrwPerGram)}
-                      </h2>
-                      <p className={styles.compareUnit}>원 / g</p>
-                      <p className={styles.compareSub}>참조: 금 99.99_1kg 금현물 기준</p>
-                      <p className={styles.delta}>
-                        {deltaSign}
-                        {spot.changePercent.toFixed(2)}% (전일 대비)
-                      </p>
-                    </article>
+                    {isGold && (
+                      <article className={`${styles.compareCard} ${styles.compareCardDomestic}`}>
+                        <div className={styles.cardHead}>
+                          <p className={styles.compareLabel}>{t.live.domesticLabel}</p>
+                          <span className={styles.badges}>
+                            <SessionBadge session={spot.sources.domestic.session} />
+                            <SourceBadge result={spot.sources.domestic} />
+                          </span>
+                        </div>
+                        <h2 key={`domestic-${domesticFlashKey}`} className={`${styles.compareValue} ${styles.valueFlash}`}>
+                          {formatOptional(fromKrw(spot, currency, spot.domesticKrwPerGram), formatSelected)}
+                        </h2>
+                        <p className={styles.compareUnit}>{selectedCurrency.unit} / g</p>
+                        <p className={styles.compareSub}>{t.live.domesticReference}</p>
+                        {spot.changePercent !== null && (
+                          <p className={styles.delta}>
+                            {deltaSign}
+                            {spot.changePercent.toFixed(2)}% ({t.live.dayChange})
+                          </p>
+                        )}
+                      </article>
+                    )}
 
-                    <article className={`${styles.compareCard} ${styles.compareCardGlobal}`}>
-                      <p className={styles.compareLabel}>국제 금값 (원화 환산)</p>
+                    <article
+                      className={`${styles.compareCard} ${styles.compareCardGlobal} ${isGold ? "" : styles.compareCardWide}`}
+                    >
+                      <div className={styles.cardHead}>
+                        <p className={styles.compareLabel}>{t.live.globalLabel(metalLabel, selectedCurrency.label)}</p>
+                        <span className={styles.badges}>
+                          <SessionBadge session={spot.sources.metal.session} />
+                          {globalSource && <SourceBadge result={globalSource} />}
+                        </span>
+                      </div>
                       <h2 key={`global-${globalFlashKey}`} className={`${styles.compareValue} ${styles.valueFlash}`}>
-                        {formatKrw((spot.goldPriceUsdPerOunce * spot.usdKrw) / OUNCE_TO_GRAM)}
+                        {formatOptional(fromKrw(spot, currency, spot.metalKrwPerGram), formatSelected)}
                       </h2>
-                      <p className={styles.compareUnit}>원 / g</p>
-                      <p className={styles.compareSub}>USD/oz x 환율 / 31.1035</p>
+                      <p className={styles.compareUnit}>{selectedCurrency.unit} / g</p>
+                      <p className={styles.compareSub}>
+                        {t.live.globalFormula} / {OUNCE_TO_GRAM.toFixed(4)}
+                      </p>
+                      {!isGold && spot.metalChangePercent !== null && (
+                        <p className={styles.delta}>
+                          {formatSigned(spot.metalChangePercent, 2)}% ({t.live.dayChangeUsd})
+                        </p>
+                      )}
+                      {!isGold && <p className={styles.compareSub}>{t.live.goldOnly}</p>}
                     </article>
                   </div>
 
+                  {isGold && spot.premiumKrwPerGram !== null && spot.premiumPercent !== null && (
+                    <article className={styles.premiumCard}>
+                      <p className={styles.compareLabel}>{t.live.premiumLabel}</p>
+                      <strong className={spot.premiumKrwPerGram >= 0 ? styles.premiumRich : styles.premiumCheap}>
+                        {formatSigned(spot.premiumPercent, 2)}%
+                      </strong>
+                      <p className={styles.compareSub}>
+                        {spot.premiumKrwPerGram >= 0 ? "+" : "-"}
+                        {t.withUnit(
+                          formatOptional(fromKrw(spot, currency, Math.abs(spot.premiumKrwPerGram)), formatSelected),
+                          selectedCurrency.unit,
+                        )}{" "}
+                        / g · {spot.premiumKrwPerGram >= 0 ? t.live.premiumRich : t.live.premiumCheap}
+                      </p>
+                    </article>
+                  )}
+
                   <div className={styles.metrics}>
                     <article className={styles.metricCard}>
-                      <p>국제 금 가격</p>
-                      <strong>${formatUsd(spot.goldPriceUsdPerOunce)} / oz</strong>
+                      <div className={styles.cardHead}>
+                        <p>{t.live.globalPrice(metalLabel)}</p>
+                        <span className={styles.badges}>
+                          <SessionBadge session={spot.sources.metal.session} />
+                          <SourceBadge result={spot.sources.metal} />
+                        </span>
+                      </div>
+                      <strong>${formatOptional(spot.metalUsdPerOunce, formatDollars)} / oz</strong>
                     </article>
                     <article className={styles.metricCard}>
-                      <p>원/달러</p>
-                      <strong>{formatUsd(spot.usdKrw)} KRW</strong>
+                      <div className={styles.cardHead}>
+                        <p>{t.live.usdKrw}</p>
+                        <span className={styles.badges}>
+                          <SessionBadge session={spot.sources.fx.session} />
+                          <SourceBadge result={spot.sources.fx} />
+                        </span>
+                      </div>
+                      <strong>{formatOptional(spot.usdKrw, formatDollars)} KRW</strong>
                     </article>
+                    {currency !== "KRW" && currency !== "USD" && (
+                      <article className={styles.metricCard}>
+                        <p>{t.live.perUsd(selectedCurrency.unit)}</p>
+                        <strong>
+                          {formatOptional(spot.fxRates[currency], formatDollars)} {currency}
+                        </strong>
+                      </article>
+                    )}
                     <article className={styles.metricCard}>
-                      <p>환산식</p>
-                      <strong>(국제 금 x 환율) / 31.1035</strong>
+                      <p>{t.live.goldSilverRatio}</p>
+                      <strong>{formatOptional(spot.goldSilverRatio, (value) => value.toFixed(2))}</strong>
                     </article>
                   </div>
 
                   <p className={styles.updated}>
-                    마지막 갱신: {new Date(spot.updatedAt).toLocaleString("ko-KR", { hour12: false })}
+                    {t.live.updatedAt(formatDateTime(spot.updatedAt, locale))}
+                    {marketsClosed && ` · ${t.live.marketsClosed}`}
                   </p>
+
+                  <CalculatorPanel
+                    metalLabel={metalLabel}
+                    domesticKrwPerGram={isGold ? spot.domesticKrwPerGram : null}
+                    globalKrwPerGram={spot.metalKrwPerGram}
+                  />
+
+                  <AlertsPanel />
                 </>
               )
             )}
@@ -314,51 +1341,162 @@ export default function Home() {
         {mode === "history" && (
           <section className={styles.panel}>
             <div className={styles.rangeTabs}>
-              {ranges.map((item) => (
+              {ranges.map((id) => (
+                <button
+                  type="button"
+                  key={id}
+                  className={range === id ? `${styles.pill} ${styles.pillActive}` : styles.pill}
+                  onClick={() => {
+                    setRange(id);
+                    setPickerOpen(false);
+                  }}
+                >
+                  {t.ranges[id]}
+                </button>
+              ))}
+              <button
+                type="button"
+                className={range === "custom" ? `${styles.pill} ${styles.pillActive}` : styles.pill}
+                onClick={() => setPickerOpen((current) => !current)}
+              >
+                {t.history.custom}
+              </button>
+              <span className={styles.exportLinks}>
+                <a href={`/api/history?${historyQuery}&format=csv`} download className={styles.pill}>
+                  CSV
+                </a>
+                <a href={`/api/history?${historyQuery}&format=json`} download className={styles.pill}>
+                  JSON
+                </a>
+              </span>
+            </div>
+
+            {pickerOpen && (
+              <form className={styles.datePicker} onSubmit={applyCustomWindow}>
+                <input
+                  type="date"
+                  value={draftWindow.from}
+                  onChange={(event) => setDraftWindow((current) => ({ ...current, from: event.target.value }))}
+                  aria-label={t.history.from}
+                />
+                <span>~</span>
+                <input
+                  type="date"
+                  value={draftWindow.to}
+                  onChange={(event) => setDraftWindow((current) => ({ ...current, to: event.target.value }))}
+                  aria-label={t.history.to}
+                />
+                <button type="submit" className={styles.pill}>
+                  {t.history.apply}
+                </button>
+              </form>
+            )}
+
+            <div className={styles.benchmarkTabs} role="group" aria-label={t.history.benchmarks}>
+              <span>{t.history.benchmarks}</span>
+              {BENCHMARKS.map((item) => (
                 <button
                   type="button"
                   key={item.id}
-                  className={range === item.id ? `${styles.pill} ${styles.pillActive}` : styles.pill}
-                  onClick={() => setRange(item.id)}
+                  aria-pressed={benchmarks.includes(item.id)}
+                  className={benchmarks.includes(item.id) ? `${styles.pill} ${styles.pillActive}` : styles.pill}
+                  onClick={() => toggleBenchmark(item.id)}
                 >
-                  {item.label}
+                  <span className={`${styles.dot} ${BENCHMARK_DOT_CLASSES[item.id]}`} />
+                  {t.benchmarks[item.id]}
                 </button>
               ))}
             </div>
 
-            {historyError && <p className={styles.error}>{historyError}</p>}
+            {historyError && <p className={styles.error}>{describeHistoryError(historyError, t)}</p>}
 
             {historyLoading ? (
-              <p className={styles.loading}>기간별 데이터를 계산하는 중...</p>
+              <p className={styles.loading}>{t.history.loading}</p>
             ) : (
               history &&
               history.points.length > 2 && (
                 <>
-                  <TrendChart points={history.points} />
+                  <TrendChart
+                    points={history.points}
+                    benchmarks={history.benchmarks}
+                    metal={metal}
+                    currency={historyCurrencyId}
+                  />
 
                   {stats && (
                     <div className={styles.statsGrid}>
                       <article className={styles.statCard}>
-                        <p>최신 국내 1g</p>
-                        <strong>{formatKrw(stats.latest)}원</strong>
+                        <p>
+                          {stats.hasDomestic
+                            ? t.history.latestDomestic
+                            : t.history.latestConverted(historyCurrency.label)}
+                        </p>
+                        <strong>{formatHistoryPrice(stats.latest)}</strong>
                       </article>
                       <article className={styles.statCard}>
-                        <p>기간 상승률</p>
+                        <p>{t.history.periodChange}</p>
                         <strong>{stats.periodChange.toFixed(2)}%</strong>
                       </article>
                       <article className={styles.statCard}>
-                        <p>기간 최고가</p>
-                        <strong>{formatKrw(stats.high)}원</strong>
+                        <p>{t.history.periodHigh}</p>
+                        <strong>{formatHistoryPrice(stats.high)}</strong>
                       </article>
                       <article className={styles.statCard}>
-                        <p>기간 최저가</p>
-                        <strong>{formatKrw(stats.low)}원</strong>
+                        <p>{t.history.periodLow}</p>
+                        <strong>{formatHistoryPrice(stats.low)}</strong>
                       </article>
+                      {stats.benchmarks.map((benchmark) => (
+                        <article key={benchmark.id} className={styles.statCard}>
+                          <p>{t.history.benchmarkReturn(t.benchmarks[benchmark.id])}</p>
+                          <strong>{benchmark.change === null ? "-" : `${formatSigned(benchmark.change, 2)}%`}</strong>
+                        </article>
+                      ))}
                     </div>
                   )}
 
+                  {stats?.premium && (
+                    <>
+                      <SeriesChart
+                        values={history.points.map((p) => p.premiumPercent)}
+                        ariaLabel={t.history.premiumAriaLabel}
+                        legend={t.history.premiumLegend}
+                        formatLatest={(value) => `${formatSigned(value, 2)}%`}
+                        lineClassName={styles.linePremium}
+                        dotClassName={styles.dotPremium}
+                        zeroLine
+                      />
+                      <div className={styles.statsGrid}>
+                        <article className={styles.statCard}>
+                          <p>{t.history.premiumAverage}</p>
+                          <strong>{formatSigned(stats.premium.average, 2)}%</strong>
+                        </article>
+                        <article className={styles.statCard}>
+                          <p>{t.history.premiumHigh}</p>
+                          <strong>{formatSigned(stats.premium.high, 2)}%</strong>
+                        </article>
+                        <article className={styles.statCard}>
+                          <p>{t.history.premiumLow}</p>
+                          <strong>{formatSigned(stats.premium.low, 2)}%</strong>
+                        </article>
+                      </div>
+                    </>
+                  )}
+
+                  {stats?.hasRatio && (
+                    <SeriesChart
+                      values={history.points.map((p) => p.goldSilverRatio)}
+                      ariaLabel={t.history.ratioAriaLabel}
+                      legend={t.live.goldSilverRatio}
+                      formatLatest={(value) => value.toFixed(2)}
+                      lineClassName={styles.lineRatio}
+                      dotClassName={styles.dotRatio}
+                    />
+                  )}
+
+                  <AnalyticsPanel points={history.points} />
+
                   <p className={styles.updated}>
-                    조회 구간: {stats?.from} ~ {stats?.to}
+                    {t.history.span(stats?.from ?? "-", stats?.to ?? "-", history.interval)}
                   </p>
                 </>
               )
@@ -366,9 +1504,52 @@ export default function Home() {
           </section>
         )}
 
+        {mode === "portfolio" && (
+          <section className={styles.panel}>
+            <div className={styles.rangeTabs}>
+              <button
+                type="button"
+                className={portfolioBasis === "domestic" ? `${styles.pill} ${styles.pillActive}` : styles.pill}
+                onClick={() => setPortfolioBasis("domestic")}
+              >
+                {t.portfolio.domesticBasis}
+              </button>
+              <button
+                type="button"
+                className={portfolioBasis === "global" ? `${styles.pill} ${styles.pillActive}` : styles.pill}
+                onClick={() => setPortfolioBasis("global")}
+              >
+                {t.portfolio.globalBasis}
+              </button>
+            </div>
+
+            {portfolioValues && portfolioValues.length > 1 && (
+              <SeriesChart
+                values={portfolioValues}
+                ariaLabel={t.portfolio.valueAriaLabel}
+                legend={t.portfolio.valueLegend}
+                formatLatest={(value) => t.withUnit(formatKrw(value, locale), t.currencies.KRW.unit)}
+                lineClassName={styles.lineDomestic}
+                dotClassName={styles.dotDomestic}
+              />
+            )}
+
+            <PortfolioPanel
+              pricePerGram={
+                portfolioBasis === "domestic"
+                  ? (spot?.domesticKrwPerGram ?? null)
+                  : (spot?.globalKrwPerGram ?? null)
+              }
+            />
+          </section>
+        )}
+
         <footer className={styles.footer}>
-          <span>Source: {spot?.source ?? "Domestic: 금 99.99_1kg 금현물 (KRX, 1g 환산). Global: Yahoo Finance (GC=F, KRW=X)."}</span>
-          <span>모바일 최적화 UI</span>
+          <span>Source: {spot?.source ?? t.footer.defaultSource}</span>
+          <span>{t.footer.mobile}</span>
+          <Link href="/status" className={styles.footerLink}>
+            {t.footer.status}
+          </Link>
         </footer>
       </main>
     </div>
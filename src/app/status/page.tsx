@@ -0,0 +1,113 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getHealthReport, type ParseStatus, type UpstreamStatus } from "@/lib/market/health";
+import styles from "./page.module.css";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "데이터 소스 상태 · Gold Pulse KR",
+};
+
+const REFRESH_SECONDS = 30;
+
+const STATUS_LABELS: Record<UpstreamStatus, string> = {
+  ok: "정상",
+  degraded: "불안정",
+  down: "장애",
+};
+
+const PARSE_LABELS: Record<ParseStatus, string> = {
+  ok: "파싱 정상",
+  failed: "파싱 실패",
+  unknown: "파싱 기록 없음",
+};
+
+function formatTime(iso: string | null): string {
+  return iso === null ? "-" : new Date(iso).toLocaleString("ko-KR", { timeZone: "Asia/Seoul", hour12: false });
+}
+
+export default function StatusPage() {
+  const report = getHealthReport();
+  const fixture = process.env.MARKET_DATA_PROVIDER === "fixture";
+
+  return (
+    <div className={styles.shell}>
+      <meta httpEquiv="refresh" content={String(REFRESH_SECONDS)} />
+      <main className={styles.app}>
+        <header className={styles.header}>
+          <p className={styles.kicker}>GOLD PULSE KR</p>
+          <h1>데이터 소스 상태</h1>
+          <p className={styles.subtitle}>
+            서버가 시작된 뒤 각 업스트림 호출의 성공/실패, 응답 시간과 파싱 결과입니다. {REFRESH_SECONDS}초마다
+            새로고침됩니다. (<a href="/api/health">JSON</a> · <Link href="/">대시보드</Link>)
+          </p>
+        </header>
+
+        <p className={`${styles.overall} ${report.status === "ok" ? styles.ok : styles.degraded}`}>
+          전체 상태: {STATUS_LABELS[report.status]} · {formatTime(report.generatedAt)} 기준
+        </p>
+
+        {fixture && <p className={styles.note}>MARKET_DATA_PROVIDER=fixture 모드에서는 업스트림을 호출하지 않습니다.</p>}
+        {!fixture && report.upstreams.length === 0 && (
+          <p className={styles.note}>아직 호출된 업스트림이 없습니다. 대시보드를 열거나 잠시 후 다시 확인해 주세요.</p>
+        )}
+
+        <div className={styles.list}>
+          {report.upstreams.map((upstream) => (
+            <article key={upstream.upstream} className={styles.card}>
+              <div className={styles.cardHead}>
+                <h2>{upstream.upstream}</h2>
+                <span className={`${styles.badge} ${styles[upstream.status]}`}>{STATUS_LABELS[upstream.status]}</span>
+              </div>
+              <dl className={styles.stats}>
+                <div>
+                  <dt>마지막 성공</dt>
+                  <dd>{formatTime(upstream.lastSuccessAt)}</dd>
+                </div>
+                <div>
+                  <dt>마지막 실패</dt>
+                  <dd>{formatTime(upstream.lastFailureAt)}</dd>
+                </div>
+                <div>
+                  <dt>호출 / 실패</dt>
+                  <dd>
+                    {upstream.calls} / {upstream.failures}
+                    {upstream.consecutiveFailures > 0 && ` (연속 ${upstream.consecutiveFailures})`}
+                  </dd>
+                </div>
+                <div>
+                  <dt>응답 시간 p50 / p90 / p99</dt>
+                  <dd>
+                    {upstream.latencyMs
+                      ? `${upstream.latencyMs.p50} / ${upstream.latencyMs.p90} / ${upstream.latencyMs.p99} ms`
+                      : "-"}
+                  </dd>
+                </div>
+                <div>
+                  <dt>파싱</dt>
+                  <dd className={upstream.parse.status === "failed" ? styles.failedText : undefined}>
+                    {PARSE_LABELS[upstream.parse.status]}
+                    {upstream.parse.error && ` · ${upstream.parse.error}`}
+                  </dd>
+                </div>
+              </dl>
+              {upstream.recentErrors.length > 0 && (
+                <details className={styles.errors}>
+                  <summary>최근 오류 {upstream.recentErrors.length}건</summary>
+                  <ul>
+                    {upstream.recentErrors.map((error, idx) => (
+                      <li key={`${error.at}-${idx}`}>
+                        <time>{formatTime(error.at)}</time> {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </article>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, useSyncExternalStore, type FormEvent } from "react";
+import { describeAlertEvent, describeAlertRule } from "@/lib/alertMessages";
+import {
+  ALERT_CONDITION_LABELS,
+  ALERT_METRICS,
+  createAlertRule,
+  validateAlertRuleInput,
+  type AlertCondition,
+  type AlertKind,
+  type AlertMetric,
+} from "@/lib/alerts";
+import { formatDateTime } from "@/lib/i18n";
+import { alertHistoryStore, alertRulesStore } from "./alertStore";
+import { useLocale } from "./localeStore";
+import styles from "./AlertsPanel.module.css";
+
+type PermissionState = NotificationPermission | "unsupported";
+
+function readPermission(): PermissionState {
+  if (typeof window === "undefined" || !("Notification" in window)) {
+    return "unsupported";
+  }
+  return Notification.permission;
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export default function AlertsPanel() {
+  const { locale, t } = useLocale();
+  const rules = useSyncExternalStore(alertRulesStore.subscribe, alertRulesStore.get, alertRulesStore.getServerSnapshot);
+  const history = useSyncExternalStore(
+    alertHistoryStore.subscribe,
+    alertHistoryStore.get,
+    alertHistoryStore.getServerSnapshot,
+  );
+  const [permission, setPermission] = useState<PermissionState>(readPermission);
+  const [metric, setMetric] = useState<AlertMetric>("domesticKrwPerGram");
+  const [kind, setKind] = useState<AlertKind>("threshold");
+  const [condition, setCondition] = useState<AlertCondition>("above");
+  const [value, setValue] = useState<string>("");
+  const [repeat, setRepeat] = useState<boolean>(false);
+  const [formError, setFormError] = useState<boolean>(false);
+
+  const requestPermission = async () => {
+    if (permission === "unsupported") {
+      return;
+    }
+    setPermission(await Notification.requestPermission());
+  };
+
+  const addRule = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const input = { metric, kind, condition, value: Number.parseFloat(value), repeat };
+    if (validateAlertRuleInput(input)) {
+      setFormError(true);
+      return;
+    }
+
+    alertRulesStore.set((current) => [...current, createAlertRule(input, createId(), new Date().toISOString())]);
+    setValue("");
+    setFormError(false);
+  };
+
+  const toggleRule = (id: string) => {
+    alertRulesStore.set((current) =>
+      current.map((rule) =>
+        rule.id === id
+          ? { ...rule, enabled: !rule.enabled, state: { armed: true, lastValue: null, baseline: null } }
+          : rule,
+      ),
+    );
+  };
+
+  const removeRule = (id: string) => {
+    alertRulesStore.set((current) => current.filter((rule) => rule.id !== id));
+  };
+
+  return (
+    <section className={styles.alerts}>
+      <div className={styles.head}>
+        <h3>{t.alerts.title}</h3>
+        {permission === "default" && (
+          <button type="button" className={styles.permissionBtn} onClick={() => void requestPermission()}>
+            {t.alerts.allowNotifications}
+          </button>
+        )}
+        {permission === "denied" && <span className={styles.hint}>{t.alerts.denied}</span>}
+        {permission === "unsupported" && <span className={styles.hint}>{t.alerts.unsupported}</span>}
+      </div>
+
+      <form className={styles.form} onSubmit={addRule}>
+        <select value={metric} onChange={(event) => setMetric(event.target.value as AlertMetric)}>
+          {ALERT_METRICS.map((item) => (
+            <option key={item.id} value={item.id}>
+              {t.alerts.metrics[item.id].label}
+            </option>
+          ))}
+        </select>
+        <select value={kind} onChange={(event) => setKind(event.target.value as AlertKind)}>
+          <option value="threshold">{t.alerts.threshold}</option>
+          <option value="percentMove">{t.alerts.percentMove}</option>
+        </select>
+        <input
+          type="number"
+          step="any"
+          inputMode="decimal"
+          placeholder={kind === "percentMove" ? t.alerts.percentPlaceholder : t.alerts.valuePlaceholder}
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+        />
+        <select value={condition} onChange={(event) => setCondition(event.target.value as AlertCondition)}>
+          {(Object.keys(ALERT_CONDITION_LABELS) as AlertCondition[]).map((item) => (
+            <option key={item} value={item}>
+              {t.alerts.conditions[item]}
+            </option>
+          ))}
+        </select>
+        <label className={styles.repeat}>
+          <input type="checkbox" checked={repeat} onChange={(event) => setRepeat(event.target.checked)} />
+          {t.alerts.repeat}
+        </label>
+        <button type="submit" className={styles.addBtn}>
+          {t.alerts.add}
+        </button>
+      </form>
+      {formError && <p className={styles.error}>{t.alerts.invalid}</p>}
+
+      {rules.length > 0 && (
+        <ul className={styles.list}>
+          {rules.map((rule) => (
+            <li key={rule.id} className={rule.enabled ? styles.rule : `${styles.rule} ${styles.ruleOff}`}>
+              <span>
+                {describeAlertRule(rule, locale)} · {rule.repeat ? t.alerts.repeat : t.alerts.once}
+              </span>
+              <span className={styles.ruleActions}>
+                <button type="button" onClick={() => toggleRule(rule.id)}>
+                  {rule.enabled ? t.alerts.disable : t.alerts.enable}
+                </button>
+                <button type="button" onClick={() => removeRule(rule.id)}>
+                  {t.alerts.remove}
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {history.length > 0 && (
+        <div className={styles.history}>
+          <div className={styles.head}>
+            <h4>{t.alerts.history}</h4>
+            <button type="button" className={styles.clearBtn} onClick={() => alertHistoryStore.set([])}>
+              {t.alerts.clear}
+            </button>
+          </div>
+          <ul className={styles.list}>
+            {history.map((event) => (
+              <li key={event.id} className={styles.event}>
+                <time>{formatDateTime(event.firedAt, locale)}</time>
+                <span>{describeAlertEvent(event, locale)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
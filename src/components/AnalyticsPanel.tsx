@@ -0,0 +1,211 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { computeAnalytics, type Analytics, type ReturnPeriod } from "@/lib/analytics";
+import { formatDateTime, formatNumber, type Locale } from "@/lib/i18n";
+import { useLocale } from "./localeStore";
+import styles from "./AnalyticsPanel.module.css";
+
+type Basis = "krw" | "usd";
+
+const BASES: Basis[] = ["krw", "usd"];
+const PERIODS: ReturnPeriod[] = ["day", "week", "month"];
+
+type AnalyticsPanelProps = {
+  points: Array<{ ts: number; krwPerGram: number; usdPerOunce: number }>;
+};
+
+function formatPercent(value: number, locale: Locale, signed: boolean): string {
+  return `${signed && value >= 0 ? "+" : ""}${formatNumber(value, locale, 2)}%`;
+}
+
+function changeClass(value: number): string {
+  return value < 0 ? styles.loss : styles.gain;
+}
+
+// Deeper colour for bigger moves, saturating at 10% in a month.
+function heatStyle(value: number | null) {
+  if (value === null) {
+    return undefined;
+  }
+  const alpha = 0.08 + Math.min(Math.abs(value) / 10, 1) * 0.42;
+  return { background: value < 0 ? `rgba(122, 184, 255, ${alpha})` : `rgba(255, 140, 140, ${alpha})` };
+}
+
+export default function AnalyticsPanel({ points }: AnalyticsPanelProps) {
+  const { locale, t } = useLocale();
+  const [heatmapBasis, setHeatmapBasis] = useState<Basis>("krw");
+
+  const results = useMemo<Record<Basis, Analytics>>(
+    () => ({
+      krw: computeAnalytics(points.map((p) => ({ ts: p.ts, close: p.krwPerGram }))),
+      usd: computeAnalytics(points.map((p) => ({ ts: p.ts, close: p.usdPerOunce }))),
+    }),
+    [points],
+  );
+
+  const formatDay = (ts: number, period: ReturnPeriod = "day") =>
+    formatDateTime(ts * 1000, locale, {
+      timeZone: "Asia/Seoul",
+      year: "numeric",
+      month: "short",
+      ...(period === "month" ? {} : { day: "numeric" }),
+    });
+
+  const renderChange = (value: number | null, signed = true) =>
+    value === null ? "-" : <span className={changeClass(value)}>{formatPercent(value, locale, signed)}</span>;
+
+  if (results.krw.annualizedReturn === null) {
+    return (
+      <section className={styles.analytics}>
+        <div className={styles.head}>
+          <h3>{t.analytics.title}</h3>
+        </div>
+        <p className={styles.hint}>{t.analytics.notEnoughData}</p>
+      </section>
+    );
+  }
+
+  const heatmap = results[heatmapBasis].monthly;
+
+  return (
+    <section className={styles.analytics}>
+      <div className={styles.head}>
+        <h3>{t.analytics.title}</h3>
+      </div>
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>{t.analytics.metric}</th>
+            {BASES.map((basis) => (
+              <th key={basis}>{t.analytics[basis]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>{t.analytics.annualizedReturn}</td>
+            {BASES.map((basis) => (
+              <td key={basis}>{renderChange(results[basis].annualizedReturn)}</td>
+            ))}
+          </tr>
+          <tr>
+            <td>{t.analytics.annualizedVolatility}</td>
+            {BASES.map((basis) => {
+              const value = results[basis].annualizedVolatility;
+              return <td key={basis}>{value === null ? "-" : formatPercent(value, locale, false)}</td>;
+            })}
+          </tr>
+          <tr>
+            <td>{t.analytics.sharpe}</td>
+            {BASES.map((basis) => {
+              const value = results[basis].sharpe;
+              return <td key={basis}>{value === null ? "-" : formatNumber(value, locale, 2)}</td>;
+            })}
+          </tr>
+          <tr>
+            <td>{t.analytics.maxDrawdown}</td>
+            {BASES.map((basis) => {
+              const drawdown = results[basis].maxDrawdown;
+              return (
+                <td key={basis}>
+                  {drawdown === null ? (
+                    "-"
+                  ) : (
+                    <>
+                      {renderChange(drawdown.change)}
+                      <span className={styles.note}>
+                        {t.analytics.drawdownSpan(formatDay(drawdown.peakTs), formatDay(drawdown.troughTs))}
+                      </span>
+                      <span className={styles.note}>
+                        {drawdown.recoveryTs === null
+                          ? t.analytics.notRecovered
+                          : t.analytics.recovered(formatDay(drawdown.recoveryTs))}
+                      </span>
+                    </>
+                  )}
+                </td>
+              );
+            })}
+          </tr>
+          {PERIODS.filter((period) => BASES.some((basis) => results[basis].extremes[period] !== null)).flatMap(
+            (period) =>
+              (["best", "worst"] as const).map((side) => (
+                <tr key={`${side}-${period}`}>
+                  <td>{t.analytics[side][period]}</td>
+                  {BASES.map((basis) => {
+                    const item = results[basis].extremes[period]?.[side];
+                    return (
+                      <td key={basis}>
+                        {item ? (
+                          <>
+                            {renderChange(item.change)}
+                            <span className={styles.note}>{formatDay(item.ts, period)}</span>
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              )),
+          )}
+        </tbody>
+      </table>
+
+      {heatmap.length > 0 && (
+        <>
+          <div className={styles.head}>
+            <h3>{t.analytics.heatmap}</h3>
+            <div className={styles.basisTabs} role="group" aria-label={t.analytics.heatmapBasis}>
+              {BASES.map((basis) => (
+                <button
+                  type="button"
+                  key={basis}
+                  aria-pressed={heatmapBasis === basis}
+                  className={heatmapBasis === basis ? `${styles.tab} ${styles.tabActive}` : styles.tab}
+                  onClick={() => setHeatmapBasis(basis)}
+                >
+                  {t.analytics[basis]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className={styles.heatmapScroll}>
+            <table className={styles.heatmap}>
+              <thead>
+                <tr>
+                  <th>{t.analytics.year}</th>
+                  {t.analytics.months.map((month) => (
+                    <th key={month}>{month}</th>
+                  ))}
+                  <th>{t.analytics.total}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {heatmap.map((row) => (
+                  <tr key={row.year}>
+                    <th>{row.year}</th>
+                    {row.months.map((value, idx) => (
+                      <td key={idx} style={heatStyle(value)}>
+                        {value === null ? "" : formatNumber(value, locale, 1)}
+                      </td>
+                    ))}
+                    <td className={styles.total}>{renderChange(row.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <p className={styles.hint}>
+        {t.analytics.krwBasis} {t.analytics.sharpeNote}
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { formatAmount, formatKrw } from "@/lib/i18n";
+import { createLocalStore } from "@/lib/localStore";
+import {
+  PRICE_CHANNELS,
+  WEIGHT_UNITS,
+  convertWeight,
+  estimateChannel,
+  isValidFees,
+  toGrams,
+  type ChannelFees,
+  type ChannelId,
+  type WeightUnit,
+} from "@/lib/pricing";
+import styles from "./CalculatorPanel.module.css";
+import { useLocale } from "./localeStore";
+
+type FeeOverrides = Partial<Record<ChannelId, ChannelFees>>;
+
+const NO_OVERRIDES: FeeOverrides = {};
+
+function parseOverrides(raw: unknown): FeeOverrides | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const overrides: FeeOverrides = {};
+  for (const channel of PRICE_CHANNELS) {
+    const fees = (raw as Record<string, Partial<ChannelFees>>)[channel.id];
+    if (fees && isValidFees(fees)) {
+      overrides[channel.id] = { buyFeePercent: fees.buyFeePercent, sellFeePercent: fees.sellFeePercent };
+    }
+  }
+  return overrides;
+}
+
+const feeStore = createLocalStore<FeeOverrides>("gold-pulse:calculator-fees", NO_OVERRIDES, parseOverrides);
+
+type CalculatorPanelProps = {
+  metalLabel: string;
+  domesticKrwPerGram: number | null;
+  globalKrwPerGram: number | null;
+};
+
+export default function CalculatorPanel({ metalLabel, domesticKrwPerGram, globalKrwPerGram }: CalculatorPanelProps) {
+  const { locale, t } = useLocale();
+  const overrides = useSyncExternalStore(feeStore.subscribe, feeStore.get, feeStore.getServerSnapshot);
+  const [amount, setAmount] = useState<string>("1");
+  const [unit, setUnit] = useState<WeightUnit>("don");
+  const [editing, setEditing] = useState<boolean>(false);
+  // Fee inputs are uncontrolled so partial entries like "0." survive; remount them on reset.
+  const [resetCount, setResetCount] = useState<number>(0);
+
+  const parsed = Number.parseFloat(amount);
+  const grams = Number.isFinite(parsed) && parsed >= 0 ? toGrams(parsed, unit) : null;
+  const channels = PRICE_CHANNELS.map((channel) => ({
+    ...channel,
+    ...t.channels[channel.id],
+    ...overrides[channel.id],
+  }));
+  const formatWon = (value: number) => t.withUnit(formatKrw(value, locale), t.currencies.KRW.unit);
+
+  const updateFee = (id: ChannelId, field: keyof ChannelFees, value: string) => {
+    const channel = channels.find((item) => item.id === id);
+    const next = { buyFeePercent: channel?.buyFeePercent ?? 0, sellFeePercent: channel?.sellFeePercent ?? 0 };
+    next[field] = Number.parseFloat(value);
+    if (isValidFees(next)) {
+      feeStore.set((current) => ({ ...current, [id]: next }));
+    }
+  };
+
+  const resetFees = () => {
+    feeStore.set(NO_OVERRIDES);
+    setResetCount((current) => current + 1);
+  };
+
+  return (
+    <section className={styles.calculator}>
+      <div className={styles.head}>
+        <h3>{t.calculator.title(metalLabel)}</h3>
+        <button type="button" className={styles.linkBtn} onClick={() => setEditing((current) => !current)}>
+          {editing ? t.calculator.closeFees : t.calculator.openFees}
+        </button>
+      </div>
+
+      <div className={styles.inputRow}>
+        <input
+          type="number"
+          step="any"
+          min="0"
+          inputMode="decimal"
+          value={amount}
+          onChange={(event) => setAmount(event.target.value)}
+          aria-label={t.calculator.weight}
+        />
+        <select
+          value={unit}
+          onChange={(event) => setUnit(event.target.value as WeightUnit)}
+          aria-label={t.calculator.unit}
+        >
+          {WEIGHT_UNITS.map((item) => (
+            <option key={item.id} value={item.id}>
+              {t.weightUnits[item.id]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {grams !== null && (
+        <ul className={styles.units}>
+          {WEIGHT_UNITS.filter((item) => item.id !== unit).map((item) => (
+            <li key={item.id}>
+              <strong>{formatAmount(convertWeight(parsed, unit, item.id), locale, 4)}</strong> {t.weightUnits[item.id]}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th>{t.calculator.channel}</th>
+            <th>{t.calculator.buy}</th>
+            <th>{t.calculator.sell}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {channels.map((channel) => {
+            const estimate =
+              grams === null ? null : estimateChannel(channel, grams, { domesticKrwPerGram, globalKrwPerGram });
+            return (
+              <tr key={channel.id}>
+                <td>
+                  <span className={styles.channel}>{channel.label}</span>
+                  <span className={styles.note}>
+                    {t.calculator.fees(channel.buyFeePercent, channel.sellFeePercent)} · {channel.note}
+                  </span>
+                </td>
+                <td>
+                  {estimate ? formatWon(estimate.buy) : "-"}
+                  {estimate && estimate.buyVat > 0 && (
+                    <span className={styles.note}>{t.calculator.vatIncluded(formatWon(estimate.buyVat))}</span>
+                  )}
+                </td>
+                <td>{estimate ? formatWon(estimate.sell) : "-"}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {editing && (
+        <div key={resetCount} className={styles.fees}>
+          {channels.map((channel) => (
+            <label key={channel.id} className={styles.feeRow}>
+              <span>{channel.label}</span>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                defaultValue={channel.buyFeePercent}
+                onChange={(event) => updateFee(channel.id, "buyFeePercent", event.target.value)}
+                aria-label={t.calculator.buyFee(channel.label)}
+              />
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                defaultValue={channel.sellFeePercent}
+                onChange={(event) => updateFee(channel.id, "sellFeePercent", event.target.value)}
+                aria-label={t.calculator.sellFee(channel.label)}
+              />
+            </label>
+          ))}
+          <button type="button" className={styles.linkBtn} onClick={resetFees}>
+            {t.calculator.resetFees}
+          </button>
+        </div>
+      )}
+
+      <p className={styles.hint}>
+        {domesticKrwPerGram === null ? t.calculator.noDomestic : ""}
+        {t.calculator.estimateNote}
+      </p>
+    </section>
+  );
+}
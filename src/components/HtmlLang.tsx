@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect } from "react";
+import { useLocale } from "./localeStore";
+
+// The server always renders the default locale; this brings <html lang> in line with the stored choice.
+export default function HtmlLang() {
+  const { locale } = useLocale();
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return null;
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useSyncExternalStore, type ChangeEvent, type FormEvent } from "react";
+import { formatAmount, formatKrw, type Locale, type Messages } from "@/lib/i18n";
+import { lotsToCsv, parseLots, summarizePortfolio, validateLot } from "@/lib/portfolio";
+import { PRICE_CHANNELS, WEIGHT_UNITS, convertWeight, toGrams, type ChannelId, type WeightUnit } from "@/lib/pricing";
+import { useLocale } from "./localeStore";
+import { portfolioLotsStore } from "./portfolioStore";
+import styles from "./PortfolioPanel.module.css";
+
+// Kept as a code rather than text so switching language re-renders it.
+type PanelMessage =
+  | { kind: "invalid" }
+  | { kind: "imported"; count: number; rejected: number }
+  | { kind: "importFailed" };
+
+function createId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function formatSignedKrw(value: number, locale: Locale): string {
+  return `${value >= 0 ? "+" : ""}${formatKrw(value, locale)}`;
+}
+
+function formatGrams(grams: number, locale: Locale, t: Messages): string {
+  const don = convertWeight(grams, "g", "don");
+  return t.portfolio.grams(formatAmount(grams, locale, 2), formatAmount(don, locale, 2));
+}
+
+function describeMessage(message: PanelMessage, t: Messages): string {
+  switch (message.kind) {
+    case "invalid":
+      return t.portfolio.invalidLot;
+    case "imported":
+      return t.portfolio.imported(message.count, message.rejected);
+    case "importFailed":
+      return t.portfolio.importFailed;
+  }
+}
+
+function download(filename: string, type: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+type PortfolioPanelProps = {
+  pricePerGram: number | null;
+};
+
+export default function PortfolioPanel({ pricePerGram }: PortfolioPanelProps) {
+  const { locale, t } = useLocale();
+  const lots = useSyncExternalStore(
+    portfolioLotsStore.subscribe,
+    portfolioLotsStore.get,
+    portfolioLotsStore.getServerSnapshot,
+  );
+  const [date, setDate] = useState<string>("");
+  const [amount, setAmount] = useState<string>("");
+  const [unit, setUnit] = useState<WeightUnit>("don");
+  const [channel, setChannel] = useState<ChannelId>("jewelry");
+  const [paid, setPaid] = useState<string>("");
+  const [message, setMessage] = useState<PanelMessage | null>(null);
+
+  const summary = summarizePortfolio(lots, pricePerGram);
+  const won = t.currencies.KRW.unit;
+
+  const addLot = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const lot = {
+      id: createId(),
+      date,
+      grams: toGrams(Number.parseFloat(amount), unit),
+      channel,
+      paidKrw: Number.parseFloat(paid.replace(/,/g, "")),
+    };
+    if (validateLot(lot)) {
+      setMessage({ kind: "invalid" });
+      return;
+    }
+
+    portfolioLotsStore.set((current) => [...current, lot].sort((a, b) => a.date.localeCompare(b.date)));
+    setAmount("");
+    setPaid("");
+    setMessage(null);
+  };
+
+  const removeLot = (id: string) => {
+    portfolioLotsStore.set((current) => current.filter((lot) => lot.id !== id));
+  };
+
+  const importLots = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const { lots: imported, rejected } = parseLots(await file.text(), createId);
+      portfolioLotsStore.set((current) => {
+        const ids = new Set(current.map((lot) => lot.id));
+        const merged = [...current, ...imported.filter((lot) => !ids.has(lot.id))];
+        return merged.sort((a, b) => a.date.localeCompare(b.date));
+      });
+      setMessage({ kind: "imported", count: imported.length, rejected });
+    } catch {
+      setMessage({ kind: "importFailed" });
+    }
+  };
+
+  return (
+    <section className={styles.portfolio}>
+      <div className={styles.summary}>
+        <article>
+          <p>{t.portfolio.holdings}</p>
+          <strong>{formatGrams(summary.grams, locale, t)}</strong>
+        </article>
+        <article>
+          <p>{t.portfolio.averageCost}</p>
+          <strong>
+            {summary.averageCostPerGram === null
+              ? "-"
+              : `${t.withUnit(formatKrw(summary.averageCostPerGram, locale), won)}/g`}
+          </strong>
+        </article>
+        <article>
+          <p>{t.portfolio.value}</p>
+          <strong>{summary.value === null ? "-" : t.withUnit(formatKrw(summary.value, locale), won)}</strong>
+        </article>
+        <article>
+          <p>{t.portfolio.pnl}</p>
+          <strong className={summary.pnl !== null && summary.pnl < 0 ? styles.loss : styles.gain}>
+            {summary.pnl === null ? "-" : t.withUnit(formatSignedKrw(summary.pnl, locale), won)}
+            {summary.pnlPercent !== null && ` (${summary.pnlPercent >= 0 ? "+" : ""}${summary.pnlPercent.toFixed(2)}%)`}
+          </strong>
+        </article>
+      </div>
+
+      <form className={styles.form} onSubmit={addLot}>
+        <input
+          type="date"
+          value={date}
+          onChange={(event) => setDate(event.target.value)}
+          aria-label={t.portfolio.date}
+        />
+        <select
+          value={channel}
+          onChange={(event) => setChannel(event.target.value as ChannelId)}
+          aria-label={t.portfolio.channel}
+        >
+          {PRICE_CHANNELS.map((item) => (
+            <option key={item.id} value={item.id}>
+              {t.channels[item.id].label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          step="any"
+          min="0"
+          inputMode="decimal"
+          placeholder={t.portfolio.weight}
+          value={amount}
+          onChange={(event) => setAmount(event.target.value)}
+        />
+        <select
+          value={unit}
+          onChange={(event) => setUnit(event.target.value as WeightUnit)}
+          aria-label={t.portfolio.unit}
+        >
+          {WEIGHT_UNITS.map((item) => (
+            <option key={item.id} value={item.id}>
+              {t.weightUnits[item.id]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          inputMode="numeric"
+          placeholder={t.portfolio.paid}
+          value={paid}
+          onChange={(event) => setPaid(event.target.value)}
+        />
+        <button type="submit" className={styles.addBtn}>
+          {t.portfolio.add}
+        </button>
+      </form>
+      {message && <p className={styles.message}>{describeMessage(message, t)}</p>}
+
+      {lots.length > 0 && (
+        <ul className={styles.list}>
+          {lots.map((lot) => {
+            const value = pricePerGram === null ? null : lot.grams * pricePerGram;
+            return (
+              <li key={lot.id} className={styles.lot}>
+                <span>
+                  {lot.date} · {t.channels[lot.channel].label} · {formatGrams(lot.grams, locale, t)}
+                </span>
+                <span>
+                  {t.withUnit(formatKrw(lot.paidKrw, locale), won)}
+                  {value !== null && (
+                    <em className={value < lot.paidKrw ? styles.loss : styles.gain}>
+                      {" "}
+                      {t.withUnit(formatSignedKrw(value - lot.paidKrw, locale), won)}
+                    </em>
+                  )}
+                </span>
+                <button type="button" className={styles.smallBtn} onClick={() => removeLot(lot.id)}>
+                  {t.portfolio.remove}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className={styles.smallBtn}
+          disabled={lots.length === 0}
+          onClick={() => download("gold-portfolio.json", "application/json", JSON.stringify(lots, null, 2))}
+        >
+          {t.portfolio.exportJson}
+        </button>
+        <button
+          type="button"
+          className={styles.smallBtn}
+          disabled={lots.length === 0}
+          onClick={() => download("gold-portfolio.csv", "text/csv", lotsToCsv(lots))}
+        >
+          {t.portfolio.exportCsv}
+        </button>
+        <label className={styles.smallBtn}>
+          {t.portfolio.import}
+          <input type="file" accept=".json,.csv,application/json,text/csv" hidden onChange={(event) => void importLots(event)} />
+        </label>
+      </div>
+    </section>
+  );
+}
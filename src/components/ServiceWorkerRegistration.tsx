@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Only production builds get the worker: in development its caches would serve stale bundles over hot reloads.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) {
+      return;
+    }
+    navigator.serviceWorker.register("/sw.js").catch(() => undefined);
+  }, []);
+
+  return null;
+}
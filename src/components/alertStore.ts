@@ -0,0 +1,77 @@
+import { describeAlertEvent } from "@/lib/alertMessages";
+import { evaluateAlertRule, type AlertEvent, type AlertQuote, type AlertRule } from "@/lib/alerts";
+import { getMessages } from "@/lib/i18n";
+import { createLocalStore } from "@/lib/localStore";
+import { localeStore } from "./localeStore";
+
+const HISTORY_LIMIT = 50;
+
+function parseArray<T>(raw: unknown): T[] | null {
+  return Array.isArray(raw) ? (raw as T[]) : null;
+}
+
+export const alertRulesStore = createLocalStore<AlertRule[]>("gold-pulse:alert-rules", [], parseArray);
+// Events recorded before they were stored structured carry only Korean text; they are dropped.
+function parseHistory(raw: unknown): AlertEvent[] | null {
+  const events = parseArray<AlertEvent>(raw);
+  return events && events.filter((event) => typeof event?.threshold === "number" && event.kind !== undefined);
+}
+
+export const alertHistoryStore = createLocalStore<AlertEvent[]>("gold-pulse:alert-history", [], parseHistory);
+
+// Android Chrome only shows notifications through a service worker and throws on `new Notification`.
+// The worker is only registered in production builds, and `ready` never settles without one, so look the
+// registration up instead; the constructor is the fallback and must never throw into the quote update.
+function showNotification(title: string, options: NotificationOptions) {
+  const fallback = () => {
+    try {
+      new Notification(title, options);
+    } catch {
+      // Nothing else to try; the event is still in the alert history.
+    }
+  };
+
+  if (!("serviceWorker" in navigator)) {
+    fallback();
+    return;
+  }
+  navigator.serviceWorker
+    .getRegistration()
+    .then((registration) => (registration ? registration.showNotification(title, options) : fallback()))
+    .catch(fallback);
+}
+
+function notify(events: AlertEvent[]) {
+  if (typeof window === "undefined" || !("Notification" in window) || Notification.permission !== "granted") {
+    return;
+  }
+
+  const locale = localeStore.get();
+  const title = getMessages(locale).alerts.notificationTitle;
+  for (const event of events) {
+    showNotification(title, { body: describeAlertEvent(event, locale), tag: event.ruleId });
+  }
+}
+
+export function evaluateAlerts(quote: AlertQuote) {
+  const now = new Date().toISOString();
+  const fired: AlertEvent[] = [];
+  const rules = alertRulesStore.get();
+  if (rules.length === 0) {
+    return;
+  }
+
+  const next = rules.map((rule) => {
+    const result = evaluateAlertRule(rule, quote, now);
+    if (result.event) {
+      fired.push(result.event);
+    }
+    return result.rule;
+  });
+
+  alertRulesStore.set(next);
+  if (fired.length > 0) {
+    alertHistoryStore.set((current) => [...fired, ...current].slice(0, HISTORY_LIMIT));
+    notify(fired);
+  }
+}
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from "react";
+import { DEFAULT_LOCALE, getMessages, parseLocale, type Locale, type Messages } from "@/lib/i18n";
+import { createLocalStore } from "@/lib/localStore";
+
+export const localeStore = createLocalStore<Locale>("gold-pulse:locale", DEFAULT_LOCALE, parseLocale);
+
+// Every component reads the locale from the store itself, so a switch re-renders them all without prop drilling.
+export function useLocale(): { locale: Locale; t: Messages } {
+  const locale = useSyncExternalStore(localeStore.subscribe, localeStore.get, localeStore.getServerSnapshot);
+  return { locale, t: getMessages(locale) };
+}
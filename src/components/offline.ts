@@ -0,0 +1,30 @@
+import { useSyncExternalStore } from "react";
+
+// Set by public/sw.js on API responses it answered from its cache because the network failed.
+export const OFFLINE_HEADER = "X-Gold-Pulse-Offline";
+
+export function isOfflineResponse(response: Response): boolean {
+  return response.headers.get(OFFLINE_HEADER) === "1";
+}
+
+function subscribe(listener: () => void) {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+}
+
+export function useOnline(): boolean {
+  return useSyncExternalStore(
+    subscribe,
+    () => navigator.onLine,
+    () => true,
+  );
+}
+
+// See the message handler in public/sw.js; a no-op until the worker controls the page.
+export function cacheSpotSnapshot(snapshot: { metal: string }) {
+  navigator.serviceWorker?.controller?.postMessage({ type: "spot", snapshot });
+}
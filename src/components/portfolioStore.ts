@@ -0,0 +1,8 @@
+import { createLocalStore } from "@/lib/localStore";
+import { validateLot, type PortfolioLot } from "@/lib/portfolio";
+
+function parseLots(raw: unknown): PortfolioLot[] | null {
+  return Array.isArray(raw) ? (raw as PortfolioLot[]).filter((lot) => validateLot(lot) === null) : null;
+}
+
+export const portfolioLotsStore = createLocalStore<PortfolioLot[]>("gold-pulse:portfolio-lots", [], parseLots);
@@ -0,0 +1,9 @@
+export async function register() {
+  // The alert engine and spot recorder need timers and the filesystem, so they only run in the Node.js server runtime.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startAlertEngine } = await import("@/lib/alertEngine/scheduler");
+    const { startSpotRecorder } = await import("@/lib/recorder/scheduler");
+    startAlertEngine();
+    startSpotRecorder();
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { authorizeAlertsRequest } from "./auth";
+
+function request(authorization?: string) {
+  return new NextRequest("http://localhost/api/alerts", {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("authorizeAlertsRequest", () => {
+  it("keeps the API closed while no token is configured", () => {
+    vi.stubEnv("ALERTS_API_TOKEN", "");
+
+    expect(authorizeAlertsRequest(request("Bearer anything"))?.status).toBe(503);
+  });
+
+  it("requires the configured bearer token", () => {
+    vi.stubEnv("ALERTS_API_TOKEN", "s3cret");
+
+    expect(authorizeAlertsRequest(request())?.status).toBe(401);
+    expect(authorizeAlertsRequest(request("Bearer wrong"))?.status).toBe(401);
+    expect(authorizeAlertsRequest(request("Bearer s3cret"))).toBeNull();
+  });
+});
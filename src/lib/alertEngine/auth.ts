@@ -0,0 +1,27 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextResponse, type NextRequest } from "next/server";
+
+function tokensMatch(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// The alerts API makes the server POST to caller-chosen URLs, so it stays closed until ALERTS_API_TOKEN
+// is set and then needs `Authorization: Bearer <token>`. Returns the error response, or null to proceed.
+export function authorizeAlertsRequest(request: NextRequest): NextResponse | null {
+  const expected = process.env.ALERTS_API_TOKEN;
+  if (!expected) {
+    return NextResponse.json({ error: "Alerts API is disabled; set ALERTS_API_TOKEN to enable it" }, { status: 503 });
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const given = header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+  if (!given || !tokensMatch(given, expected)) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="alerts"' } },
+    );
+  }
+  return null;
+}
@@ -0,0 +1,108 @@
+import { createAlertRule, validateAlertRuleInput, type AlertRuleInput } from "@/lib/alerts";
+import type { ServerAlertRule } from "./store";
+import { validateWebhookTargets } from "./webhooks";
+
+const DEFAULT_COOLDOWN_MS = 15 * 60_000;
+
+type RuleBody = Partial<AlertRuleInput> & {
+  enabled?: unknown;
+  targets?: unknown;
+  cooldownMs?: unknown;
+};
+
+function parseCooldown(value: unknown): number | string {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    return "cooldownMs must be a non-negative number";
+  }
+  return value;
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Returns the new rule, or an error message suitable for a 400 response.
+export function createServerRule(body: RuleBody | null): ServerAlertRule | string {
+  if (!body) {
+    return "Request body must be a JSON object";
+  }
+
+  const input = {
+    metric: body.metric,
+    kind: body.kind,
+    condition: body.condition,
+    value: body.value,
+    repeat: body.repeat ?? false,
+  };
+  const inputError = validateAlertRuleInput(input);
+  if (inputError) {
+    return inputError;
+  }
+
+  const targets = validateWebhookTargets(body.targets ?? []);
+  if (typeof targets === "string") {
+    return targets;
+  }
+
+  const cooldownMs = parseCooldown(body.cooldownMs ?? DEFAULT_COOLDOWN_MS);
+  if (typeof cooldownMs === "string") {
+    return cooldownMs;
+  }
+
+  return {
+    ...createAlertRule(input as AlertRuleInput, createId(), new Date().toISOString()),
+    targets,
+    cooldownMs,
+    lastNotifiedAt: null,
+  };
+}
+
+export function patchServerRule(rule: ServerAlertRule, body: RuleBody | null): ServerAlertRule | string {
+  if (!body) {
+    return "Request body must be a JSON object";
+  }
+
+  const input = {
+    metric: body.metric ?? rule.metric,
+    kind: body.kind ?? rule.kind,
+    condition: body.condition ?? rule.condition,
+    value: body.value ?? rule.value,
+    repeat: body.repeat ?? rule.repeat,
+  };
+  const inputError = validateAlertRuleInput(input);
+  if (inputError) {
+    return inputError;
+  }
+
+  if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+
+  const targets = body.targets === undefined ? rule.targets : validateWebhookTargets(body.targets);
+  if (typeof targets === "string") {
+    return targets;
+  }
+
+  const cooldownMs = body.cooldownMs === undefined ? rule.cooldownMs : parseCooldown(body.cooldownMs);
+  if (typeof cooldownMs === "string") {
+    return cooldownMs;
+  }
+
+  const conditionChanged =
+    input.metric !== rule.metric ||
+    input.kind !== rule.kind ||
+    input.condition !== rule.condition ||
+    input.value !== rule.value;
+  const enabled = body.enabled ?? rule.enabled;
+
+  return {
+    ...rule,
+    ...(input as AlertRuleInput),
+    enabled,
+    targets,
+    cooldownMs,
+    // Changing what the rule watches, or switching it back on, starts it from a clean slate.
+    state:
+      conditionChanged || (enabled && !rule.enabled) ? { armed: true, lastValue: null, baseline: null } : rule.state,
+  };
+}
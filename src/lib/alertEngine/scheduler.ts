@@ -0,0 +1,103 @@
+import { evaluateAlertRule, type AlertEvent } from "@/lib/alerts";
+import { getSpotSnapshot, type SpotSnapshot } from "@/lib/spot";
+import { loadAlertStore, updateAlertStore, type DeliveryRecord, type ServerAlertRule } from "./store";
+import { deliverWebhook } from "./webhooks";
+
+const DEFAULT_INTERVAL_MS = 30_000;
+
+type EngineState = {
+  timer: ReturnType<typeof setInterval> | null;
+  running: boolean;
+};
+
+const globalForEngine = globalThis as typeof globalThis & { __alertEngine?: EngineState };
+
+const state: EngineState = (globalForEngine.__alertEngine ??= { timer: null, running: false });
+
+function isInCooldown(rule: ServerAlertRule, now: string): boolean {
+  if (!rule.lastNotifiedAt || rule.cooldownMs <= 0) {
+    return false;
+  }
+  return Date.parse(now) - Date.parse(rule.lastNotifiedAt) < rule.cooldownMs;
+}
+
+export async function deliverAlertEvent(
+  rule: ServerAlertRule,
+  event: AlertEvent,
+  snapshot: SpotSnapshot,
+  alreadyDelivered: (url: string) => boolean = () => false,
+): Promise<DeliveryRecord[]> {
+  const targets = rule.targets.filter((target) => !alreadyDelivered(target.url));
+  return Promise.all(targets.map((target) => deliverWebhook(target, rule, event, snapshot)));
+}
+
+export async function runAlertEngineOnce(): Promise<{ evaluated: number; fired: number }> {
+  if (state.running) {
+    return { evaluated: 0, fired: 0 };
+  }
+
+  state.running = true;
+  try {
+    // Nothing to evaluate: skip the upstream quotes entirely rather than fetching them every tick.
+    const { rules } = await loadAlertStore();
+    if (!rules.some((rule) => rule.enabled)) {
+      return { evaluated: 0, fired: 0 };
+    }
+
+    // Quotes come through the same cached provider chain as /api/spot.
+    const snapshot = await getSpotSnapshot();
+    const now = new Date().toISOString();
+
+    const { evaluated, fired } = await updateAlertStore((data) => {
+      const firedEvents: Array<{ rule: ServerAlertRule; event: AlertEvent }> = [];
+
+      data.rules = data.rules.map((rule) => {
+        const result = evaluateAlertRule(rule, snapshot, now);
+        const next: ServerAlertRule = { ...rule, ...result.rule };
+        if (!result.event || (rule.repeat && isInCooldown(rule, now))) {
+          return next;
+        }
+
+        const notified = { ...next, lastNotifiedAt: now };
+        firedEvents.push({ rule: notified, event: result.event });
+        return notified;
+      });
+
+      return { evaluated: data.rules.filter((rule) => rule.enabled).length, fired: firedEvents };
+    });
+
+    for (const { rule, event } of fired) {
+      // Skip targets that already acknowledged this event, e.g. after an overlapping run.
+      const { deliveries } = await loadAlertStore();
+      const delivered = new Set(
+        deliveries
+          .filter((record) => record.eventId === event.id && record.status === "delivered")
+          .map((record) => record.url),
+      );
+
+      const records = await deliverAlertEvent(rule, event, snapshot, (url) => delivered.has(url));
+      await updateAlertStore((data) => {
+        data.deliveries.push(...records);
+      });
+    }
+
+    return { evaluated, fired: fired.length };
+  } finally {
+    state.running = false;
+  }
+}
+
+// Idempotent: called from instrumentation at boot and again by the alert routes in case boot hooks are off.
+export function startAlertEngine() {
+  if (state.timer || process.env.ALERT_ENGINE === "off") {
+    return;
+  }
+
+  const parsed = Number.parseInt(process.env.ALERT_ENGINE_INTERVAL_MS ?? "", 10);
+  const intervalMs = Number.isFinite(parsed) && parsed >= 1000 ? parsed : DEFAULT_INTERVAL_MS;
+  state.timer = setInterval(() => {
+    runAlertEngineOnce().catch((error) => {
+      console.error("[alert-engine] run failed:", error instanceof Error ? error.message : error);
+    });
+  }, intervalMs);
+}
@@ -0,0 +1,91 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { AlertRule } from "@/lib/alerts";
+
+const DELIVERY_LOG_LIMIT = 200;
+
+export type WebhookFormat = "json" | "slack";
+
+export type WebhookTarget = {
+  url: string;
+  format: WebhookFormat;
+};
+
+export type ServerAlertRule = AlertRule & {
+  targets: WebhookTarget[];
+  // Repeating rules stay quiet for this long after a delivery, however often they re-trigger.
+  cooldownMs: number;
+  lastNotifiedAt: string | null;
+};
+
+export type DeliveryRecord = {
+  eventId: string;
+  ruleId: string;
+  url: string;
+  status: "delivered" | "failed";
+  attempts: number;
+  at: string;
+  error: string | null;
+};
+
+export type AlertStoreData = {
+  rules: ServerAlertRule[];
+  deliveries: DeliveryRecord[];
+};
+
+type StoreState = {
+  queue: Promise<unknown>;
+};
+
+const globalForStore = globalThis as typeof globalThis & { __alertStore?: StoreState };
+
+// Every read-modify-write goes through one queue so the scheduler and API never interleave writes.
+const state: StoreState = (globalForStore.__alertStore ??= { queue: Promise.resolve() });
+
+function getStorePath(): string {
+  return process.env.ALERTS_STORE_PATH ?? path.join(process.cwd(), ".data", "alerts.json");
+}
+
+async function readStore(): Promise<AlertStoreData> {
+  try {
+    const raw = JSON.parse(await readFile(getStorePath(), "utf8")) as Partial<AlertStoreData>;
+    return {
+      rules: Array.isArray(raw.rules) ? raw.rules : [],
+      deliveries: Array.isArray(raw.deliveries) ? raw.deliveries : [],
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { rules: [], deliveries: [] };
+    }
+    throw error;
+  }
+}
+
+async function writeStore(data: AlertStoreData) {
+  const storePath = getStorePath();
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+  await mkdir(path.dirname(storePath), { recursive: true });
+  await writeFile(tempPath, `${JSON.stringify(data, null, 2)}\n`, "utf8");
+  await rename(tempPath, storePath);
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = state.queue.then(task, task);
+  state.queue = run.catch(() => undefined);
+  return run;
+}
+
+export function loadAlertStore(): Promise<AlertStoreData> {
+  return enqueue(readStore);
+}
+
+// The updater may mutate `data` in place or return a value for the caller; the store is saved either way.
+export function updateAlertStore<T>(updater: (data: AlertStoreData) => T): Promise<T> {
+  return enqueue(async () => {
+    const data = await readStore();
+    const result = updater(data);
+    data.deliveries = data.deliveries.slice(-DELIVERY_LOG_LIMIT);
+    await writeStore(data);
+    return result;
+  });
+}
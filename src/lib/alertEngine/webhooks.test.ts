@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { validateWebhookTargets } from "./webhooks";
+
+function validate(url: string) {
+  return validateWebhookTargets([{ url, format: "json" }]);
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("validateWebhookTargets", () => {
+  it("accepts public http(s) urls", () => {
+    expect(validate("https://hooks.example.com/alert")).toEqual([
+      { url: "https://hooks.example.com/alert", format: "json" },
+    ]);
+  });
+
+  it.each([
+    "http://localhost:4010/hook",
+    "http://127.0.0.1/",
+    "http://2130706433/",
+    "http://10.1.2.3/",
+    "http://172.20.0.1/",
+    "http://192.168.0.10/",
+    "http://169.254.169.254/latest/meta-data",
+    "http://[::1]/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://[fd00::1]/",
+  ])("rejects the private or loopback host in %s", (url) => {
+    expect(validate(url)).toMatch(/^webhook url must not point at a private or loopback host/);
+  });
+
+  it("lets ALERT_WEBHOOK_ALLOWED_HOSTS through", () => {
+    vi.stubEnv("ALERT_WEBHOOK_ALLOWED_HOSTS", "localhost, 10.0.0.5");
+
+    expect(validate("http://localhost:4010/hook")).toHaveLength(1);
+    expect(validate("http://10.0.0.5/hook")).toHaveLength(1);
+    expect(typeof validate("http://10.0.0.6/hook")).toBe("string");
+  });
+
+  it("rejects other protocols", () => {
+    expect(validate("ftp://example.com/")).toBe("webhook url must be http(s): ftp://example.com/");
+  });
+});
@@ -0,0 +1,235 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import type { AlertEvent } from "@/lib/alerts";
+import { describeAlertEvent, describeAlertRule } from "@/lib/alertMessages";
+import type { SpotSnapshot } from "@/lib/spot";
+import type { DeliveryRecord, ServerAlertRule, WebhookTarget } from "./store";
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+
+class WebhookStatusError extends Error {
+  constructor(readonly status: number) {
+    super(`Webhook responded ${status}`);
+  }
+}
+
+class WebhookHostError extends Error {}
+
+// IPv4 in dotted form, or IPv6 without brackets; URL normalizes IPv4-mapped IPv6 to hex groups.
+function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+  if (version !== 6) {
+    return false;
+  }
+
+  const lower = address.toLowerCase();
+  const dotted = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    return isPrivateAddress(dotted[1]);
+  }
+  const hex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const high = Number.parseInt(hex[1], 16);
+    const low = Number.parseInt(hex[2], 16);
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return lower === "::" || lower === "::1" || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+function toHostname(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+}
+
+// Hosts named in ALERT_WEBHOOK_ALLOWED_HOSTS (comma-separated) may be private, e.g. a local receiver.
+function isAllowedHost(hostname: string): boolean {
+  const allowed = (process.env.ALERT_WEBHOOK_ALLOWED_HOSTS ?? "").split(",").map((item) => item.trim().toLowerCase());
+  return allowed.includes(hostname);
+}
+
+function isPrivateHostname(hostname: string): boolean {
+  return hostname === "localhost" || hostname.endsWith(".localhost") || isPrivateAddress(hostname);
+}
+
+// Webhooks must not reach into the server's own network. Names are checked again when they resolve,
+// right before each delivery, since any public name can point at a private address.
+async function assertPublicHost(url: URL) {
+  const hostname = toHostname(url);
+  if (isAllowedHost(hostname)) {
+    return;
+  }
+  if (isPrivateHostname(hostname)) {
+    throw new WebhookHostError(`webhook host ${hostname} is private`);
+  }
+  if (isIP(hostname) === 0) {
+    const addresses = await lookup(hostname, { all: true });
+    if (addresses.some((item) => isPrivateAddress(item.address))) {
+      throw new WebhookHostError(`webhook host ${hostname} resolves to a private address`);
+    }
+  }
+}
+
+export function validateWebhookTargets(targets: unknown): WebhookTarget[] | string {
+  if (!Array.isArray(targets)) {
+    return "targets must be an array";
+  }
+
+  const parsed: WebhookTarget[] = [];
+  for (const target of targets as Array<Partial<WebhookTarget>>) {
+    if (target?.format !== "json" && target?.format !== "slack") {
+      return "webhook format must be json or slack";
+    }
+
+    let url: URL;
+    try {
+      url = new URL(String(target.url));
+    } catch {
+      return `invalid webhook url: ${String(target.url)}`;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return `webhook url must be http(s): ${url.href}`;
+    }
+    const hostname = toHostname(url);
+    if (isPrivateHostname(hostname) && !isAllowedHost(hostname)) {
+      return `webhook url must not point at a private or loopback host: ${url.href}`;
+    }
+
+    parsed.push({ url: url.href, format: target.format });
+  }
+  return parsed;
+}
+
+function buildPayload(
+  format: WebhookTarget["format"],
+  rule: ServerAlertRule,
+  event: AlertEvent,
+  snapshot: SpotSnapshot,
+) {
+  const message = describeAlertEvent(event);
+  if (format === "slack") {
+    return {
+      text: `*Gold Pulse KR 알림*\n${message}`,
+      blocks: [
+        { type: "section", text: { type: "mrkdwn", text: `*Gold Pulse KR 알림*\n${message}` } },
+        {
+          type: "context",
+          elements: [{ type: "mrkdwn", text: `규칙: ${describeAlertRule(rule)} · ${event.firedAt}` }],
+        },
+      ],
+    };
+  }
+
+  return {
+    type: "gold-pulse.alert",
+    event: { ...event, message },
+    rule: {
+      id: rule.id,
+      metric: rule.metric,
+      kind: rule.kind,
+      condition: rule.condition,
+      value: rule.value,
+      repeat: rule.repeat,
+      description: describeAlertRule(rule),
+    },
+    quote: {
+      domesticKrwPerGram: snapshot.domesticKrwPerGram,
+      goldPriceUsdPerOunce: snapshot.goldPriceUsdPerOunce,
+      usdKrw: snapshot.usdKrw,
+      changePercent: snapshot.changePercent,
+      updatedAt: snapshot.updatedAt,
+    },
+  };
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function postOnce(target: WebhookTarget, body: string, eventId: string) {
+  await assertPublicHost(new URL(target.url));
+  const response = await fetch(target.url, {
+    method: "POST",
+    cache: "no-store",
+    // A redirect could lead past the host check; it fails the delivery like any non-2xx answer.
+    redirect: "manual",
+    headers: {
+      "Content-Type": "application/json",
+      // Lets receivers drop a redelivery of an event they already handled.
+      "X-Gold-Pulse-Event-Id": eventId,
+    },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new WebhookStatusError(response.status);
+  }
+}
+
+// Blocked hosts and 4xx responses other than 429 are not retried: the payload will not become acceptable by waiting.
+function isRetryable(error: unknown): boolean {
+  if (error instanceof WebhookHostError) {
+    return false;
+  }
+  if (!(error instanceof WebhookStatusError)) {
+    return true;
+  }
+  return error.status === 429 || error.status >= 500;
+}
+
+export async function deliverWebhook(
+  target: WebhookTarget,
+  rule: ServerAlertRule,
+  event: AlertEvent,
+  snapshot: SpotSnapshot,
+): Promise<DeliveryRecord> {
+  const body = JSON.stringify(buildPayload(target.format, rule, event, snapshot));
+  let lastError: unknown = null;
+  let attempts = 0;
+
+  while (attempts < MAX_ATTEMPTS) {
+    attempts += 1;
+    try {
+      await postOnce(target, body, event.id);
+      return {
+        eventId: event.id,
+        ruleId: rule.id,
+        url: target.url,
+        status: "delivered",
+        attempts,
+        at: new Date().toISOString(),
+        error: null,
+      };
+    } catch (error) {
+      lastError = error;
+      if (!isRetryable(error) || attempts >= MAX_ATTEMPTS) {
+        break;
+      }
+      await sleep(RETRY_BASE_MS * 2 ** (attempts - 1));
+    }
+  }
+
+  return {
+    eventId: event.id,
+    ruleId: rule.id,
+    url: target.url,
+    status: "failed",
+    attempts,
+    at: new Date().toISOString(),
+    error: lastError instanceof Error ? lastError.message : "Unknown error",
+  };
+}
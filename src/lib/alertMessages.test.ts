@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { describeAlertEvent, describeAlertRule } from "./alertMessages";
+import { createAlertRule, evaluateAlertRule, type AlertQuote } from "./alerts";
+
+const NOW = "2024-05-20T06:00:00.000Z";
+
+function quote(domesticKrwPerGram: number): AlertQuote {
+  return { domesticKrwPerGram, goldPriceUsdPerOunce: null, usdKrw: null, changePercent: null };
+}
+
+function fire(kind: "threshold" | "percentMove", value: number, prices: number[]) {
+  let rule = createAlertRule(
+    { metric: "domesticKrwPerGram", kind, condition: "above", value, repeat: false },
+    "rule-1",
+    NOW,
+  );
+  for (const price of prices) {
+    const result = evaluateAlertRule(rule, quote(price), NOW);
+    if (result.event) {
+      return result.event;
+    }
+    rule = result.rule;
+  }
+  throw new Error("rule did not fire");
+}
+
+describe("describeAlertRule", () => {
+  it("words the rule in Korean by default and in the requested locale otherwise", () => {
+    const rule = { metric: "domesticKrwPerGram", kind: "threshold", condition: "above", value: 100_000 } as const;
+
+    expect(describeAlertRule({ ...rule, repeat: false })).toBe("국내 금값 100,000 원/g 이상");
+    expect(describeAlertRule({ ...rule, repeat: false }, "en")).toBe("Domestic gold at or above 100,000 KRW/g");
+  });
+});
+
+describe("describeAlertEvent", () => {
+  it("formats a fired threshold event through the catalog", () => {
+    const event = fire("threshold", 100_000, [101_234]);
+
+    expect(event).toMatchObject({ kind: "threshold", threshold: 100_000, value: 101_234, move: null });
+    expect(describeAlertEvent(event)).toBe("국내 금값 100,000 원/g 이상: 현재 101,234 원/g");
+    expect(describeAlertEvent(event, "en")).toBe("Domestic gold at or above 100,000 KRW/g: now 101,234 KRW/g");
+  });
+
+  it("includes the move for percent rules and marks test deliveries", () => {
+    const event = fire("percentMove", 1, [100_000, 101_500]);
+
+    expect(event.move).toBeCloseTo(1.5, 10);
+    expect(describeAlertEvent(event, "en")).toBe("Domestic gold moves 1% (at or above): 1.50% (now 101,500 KRW/g)");
+    expect(describeAlertEvent({ ...event, test: true })).toBe(
+      "[테스트] 국내 금값 1% 변동 이상: 1.50% (현재 101,500 원/g)",
+    );
+  });
+});
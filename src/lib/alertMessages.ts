@@ -0,0 +1,27 @@
+import { ALERT_VALUE_DIGITS, type AlertEvent, type AlertRuleInput } from "@/lib/alerts";
+import { formatAmount, formatNumber, getMessages, type Locale } from "@/lib/i18n";
+
+// Alert wording goes through the message catalogs: the browser passes its active locale, while the
+// server (webhooks, the alerts API) keeps the Korean default.
+
+export function describeAlertRule(rule: AlertRuleInput, locale: Locale = "ko"): string {
+  const t = getMessages(locale);
+  const metric = t.alerts.metrics[rule.metric];
+  const condition = t.alerts.conditions[rule.condition];
+  if (rule.kind === "percentMove") {
+    return t.alerts.describeMove(metric.label, rule.value, condition);
+  }
+  return t.alerts.describeThreshold(metric.label, formatAmount(rule.value, locale, 3), metric.unit, condition);
+}
+
+export function describeAlertEvent(event: AlertEvent, locale: Locale = "ko"): string {
+  const t = getMessages(locale);
+  const rule = describeAlertRule({ ...event, value: event.threshold, repeat: false }, locale);
+  const unit = t.alerts.metrics[event.metric].unit;
+  const value = `${formatNumber(event.value, locale, ALERT_VALUE_DIGITS[event.metric])} ${unit}`;
+  const message =
+    event.move === null
+      ? t.alerts.fired(rule, value)
+      : t.alerts.firedMove(rule, formatNumber(event.move, locale, 2), value);
+  return event.test ? t.alerts.test(message) : message;
+}
@@ -0,0 +1,180 @@
+export type AlertMetric = "domesticKrwPerGram" | "goldPriceUsdPerOunce" | "usdKrw" | "changePercent";
+
+// threshold: compare the metric against a fixed level.
+// percentMove: compare the metric's % move since the rule was armed against `value`.
+export type AlertKind = "threshold" | "percentMove";
+
+export type AlertCondition = "above" | "below" | "crosses";
+
+export type AlertQuote = Record<AlertMetric, number | null>;
+
+export type AlertRuleInput = {
+  metric: AlertMetric;
+  kind: AlertKind;
+  condition: AlertCondition;
+  value: number;
+  repeat: boolean;
+};
+
+export type AlertRuleState = {
+  // Rules fire on the edge into the condition, then wait until it clears before firing again.
+  armed: boolean;
+  lastValue: number | null;
+  baseline: number | null;
+};
+
+export type AlertRule = AlertRuleInput & {
+  id: string;
+  enabled: boolean;
+  createdAt: string;
+  triggeredAt: string | null;
+  state: AlertRuleState;
+};
+
+// Kept structured rather than as text so each reader (browser catalog, webhook) words it in its own language.
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  metric: AlertMetric;
+  kind: AlertKind;
+  condition: AlertCondition;
+  // The rule's level: a price for threshold rules, a percent for percentMove rules.
+  threshold: number;
+  // The metric when the rule fired.
+  value: number;
+  // percentMove rules only: the % move from the baseline that set it off.
+  move: number | null;
+  // Sent by hand from the alerts API rather than fired by the rule.
+  test?: boolean;
+  firedAt: string;
+};
+
+export const ALERT_METRICS: Array<{ id: AlertMetric; label: string; unit: string }> = [
+  { id: "domesticKrwPerGram", label: "국내 금값", unit: "원/g" },
+  { id: "goldPriceUsdPerOunce", label: "국제 금값", unit: "USD/oz" },
+  { id: "usdKrw", label: "원/달러", unit: "KRW" },
+  { id: "changePercent", label: "국내 전일 대비", unit: "%" },
+];
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+  above: "이상",
+  below: "이하",
+  crosses: "돌파(상하)",
+};
+
+// Decimals when showing a metric's value in alert messages.
+export const ALERT_VALUE_DIGITS: Record<AlertMetric, number> = {
+  domesticKrwPerGram: 0,
+  goldPriceUsdPerOunce: 2,
+  usdKrw: 2,
+  changePercent: 2,
+};
+
+export function validateAlertRuleInput(input: Partial<AlertRuleInput>): string | null {
+  if (!ALERT_METRICS.some((item) => item.id === input.metric)) {
+    return "Unknown alert metric";
+  }
+  if (input.kind !== "threshold" && input.kind !== "percentMove") {
+    return "Unknown alert kind";
+  }
+  if (input.condition !== "above" && input.condition !== "below" && input.condition !== "crosses") {
+    return "Unknown alert condition";
+  }
+  if (typeof input.value !== "number" || !Number.isFinite(input.value)) {
+    return "Alert value must be a finite number";
+  }
+  if (input.kind === "percentMove" && input.value <= 0) {
+    return "Percent move must be greater than zero";
+  }
+  if (typeof input.repeat !== "boolean") {
+    return "Alert repeat flag must be a boolean";
+  }
+  return null;
+}
+
+export function createAlertRule(input: AlertRuleInput, id: string, now: string): AlertRule {
+  return {
+    ...input,
+    id,
+    enabled: true,
+    createdAt: now,
+    triggeredAt: null,
+    state: { armed: true, lastValue: null, baseline: null },
+  };
+}
+
+// percentMove rules measure against the value seen when they were (re)armed.
+function toObserved(rule: AlertRule, current: number, baseline: number): number {
+  if (rule.kind === "threshold") {
+    return current;
+  }
+  return baseline === 0 ? 0 : ((current - baseline) / baseline) * 100;
+}
+
+function isInCondition(rule: AlertRule, observed: number, previous: number | null): boolean {
+  const level = rule.value;
+  switch (rule.condition) {
+    case "above":
+      return observed >= level;
+    case "below":
+      return rule.kind === "percentMove" ? observed <= -level : observed <= level;
+    case "crosses":
+      if (rule.kind === "percentMove") {
+        return Math.abs(observed) >= level;
+      }
+      return previous !== null && (previous - level) * (observed - level) <= 0 && previous !== observed;
+  }
+}
+
+export function evaluateAlertRule(
+  rule: AlertRule,
+  quote: AlertQuote,
+  now: string,
+): { rule: AlertRule; event: AlertEvent | null } {
+  const current = quote[rule.metric];
+  if (!rule.enabled || current === null || !Number.isFinite(current)) {
+    return { rule, event: null };
+  }
+
+  const baseline = rule.state.baseline ?? current;
+  const observed = toObserved(rule, current, baseline);
+  const previousObserved = rule.state.lastValue === null ? null : toObserved(rule, rule.state.lastValue, baseline);
+  const inCondition = isInCondition(rule, observed, previousObserved);
+
+  if (!inCondition || !rule.state.armed) {
+    // Crossing is an event rather than a region, so it re-arms on the very next update.
+    const rearm = !inCondition || rule.condition === "crosses";
+    return {
+      rule: {
+        ...rule,
+        state: { armed: rule.repeat ? rule.state.armed || rearm : rule.state.armed, lastValue: current, baseline },
+      },
+      event: null,
+    };
+  }
+
+  return {
+    rule: {
+      ...rule,
+      enabled: rule.repeat,
+      triggeredAt: now,
+      state: {
+        armed: false,
+        lastValue: current,
+        // A repeating move alert measures the next move from where this one fired.
+        baseline: rule.kind === "percentMove" ? current : baseline,
+      },
+    },
+    event: {
+      id: `${rule.id}-${Date.parse(now)}`,
+      ruleId: rule.id,
+      metric: rule.metric,
+      kind: rule.kind,
+      condition: rule.condition,
+      threshold: rule.value,
+      value: current,
+      move: rule.kind === "percentMove" ? observed : null,
+      firedAt: now,
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { computeAnalytics, maxDrawdown, monthlyReturns } from "./analytics";
+
+// 09:00 KST on the given date.
+function kst(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day) / 1000;
+}
+
+function series(closes: Array<[number, number]>) {
+  return closes.map(([ts, close]) => ({ ts, close }));
+}
+
+describe("computeAnalytics", () => {
+  it("annualizes the return over the window's span", () => {
+    const result = computeAnalytics(series([
+      [kst(2024, 1, 1), 100],
+      [kst(2024, 7, 1), 90],
+      [kst(2024, 12, 31) + 0.25 * 86_400, 110],
+    ]));
+
+    expect(result.annualizedReturn).toBeCloseTo(10, 10);
+    expect(result.annualizedVolatility).toBeGreaterThan(0);
+    expect(result.sharpe).toBeCloseTo(10 / result.annualizedVolatility!, 10);
+  });
+
+  it("picks the best and worst day, week and month from daily bars", () => {
+    const result = computeAnalytics(series([
+      [kst(2024, 5, 27), 100],
+      [kst(2024, 5, 28), 102],
+      [kst(2024, 5, 29), 101],
+      [kst(2024, 5, 30), 100],
+      [kst(2024, 5, 31), 99],
+      [kst(2024, 6, 3), 110],
+      [kst(2024, 6, 4), 104.5],
+      [kst(2024, 6, 5), 105],
+    ]));
+
+    expect(result.extremes.day?.best).toEqual({ ts: kst(2024, 6, 3), change: expect.closeTo(11.111, 3) });
+    expect(result.extremes.day?.worst).toEqual({ ts: kst(2024, 6, 4), change: expect.closeTo(-5, 10) });
+    // Weeks start on Monday, so 05-31 closes the first week and 06-05 the second.
+    expect(result.extremes.week?.best).toEqual({
+      ts: kst(2024, 6, 5),
+      change: expect.closeTo((105 / 99 - 1) * 100, 10),
+    });
+    expect(result.extremes.week?.worst.change).toBeCloseTo(-1, 10);
+    expect(result.extremes.month?.worst).toEqual({ ts: kst(2024, 5, 31), change: expect.closeTo(-1, 10) });
+  });
+
+  it("leaves out periods finer than the bars", () => {
+    const result = computeAnalytics(series([
+      [kst(2024, 1, 31), 100],
+      [kst(2024, 2, 29), 105],
+      [kst(2024, 3, 31), 103],
+    ]));
+
+    expect(result.extremes.day).toBeNull();
+    expect(result.extremes.week).toBeNull();
+    expect(result.extremes.month?.best.change).toBeCloseTo(5, 10);
+  });
+
+  it("needs two bars spanning some time", () => {
+    expect(computeAnalytics(series([[kst(2024, 1, 1), 100]])).annualizedReturn).toBeNull();
+    expect(computeAnalytics(series([[kst(2024, 1, 1), 100], [kst(2024, 1, 1), 101]])).maxDrawdown).toBeNull();
+  });
+});
+
+describe("maxDrawdown", () => {
+  it("measures the deepest fall from a running peak and when it was made up", () => {
+    expect(maxDrawdown(series([[1, 100], [2, 120], [3, 90], [4, 110], [5, 130]]))).toEqual({
+      change: -25,
+      peakTs: 2,
+      troughTs: 3,
+      recoveryTs: 5,
+    });
+  });
+
+  it("has no recovery while still below the peak", () => {
+    expect(maxDrawdown(series([[1, 100], [2, 80], [3, 95]]))?.recoveryTs).toBeNull();
+  });
+});
+
+describe("monthlyReturns", () => {
+  it("groups month-end returns by year and compounds the total", () => {
+    const rows = monthlyReturns(series([
+      [kst(2023, 11, 15), 100],
+      [kst(2023, 11, 30), 110],
+      [kst(2023, 12, 29), 99],
+      [kst(2024, 1, 31), 108.9],
+    ]));
+
+    expect(rows.map((row) => row.year)).toEqual([2023, 2024]);
+    expect(rows[0].months[10]).toBeCloseTo(10, 10);
+    expect(rows[0].months[11]).toBeCloseTo(-10, 10);
+    expect(rows[0].months[0]).toBeNull();
+    expect(rows[0].total).toBeCloseTo(-1, 10);
+    expect(rows[1].months[0]).toBeCloseTo(10, 10);
+  });
+});
@@ -0,0 +1,207 @@
+import type { SeriesPoint } from "@/lib/market";
+
+// Risk and return figures for one price series (e.g. gold in KRW/g or USD/oz) over a history window.
+// Every return is in percent. Calendar periods (days, weeks, months) follow KST, like the rest of the app.
+
+export type ReturnPeriod = "day" | "week" | "month";
+
+export type PeriodReturn = {
+  // Last bar of the period; the return runs from the previous period's last close to this one.
+  ts: number;
+  change: number;
+};
+
+export type PeriodExtremes = {
+  best: PeriodReturn;
+  worst: PeriodReturn;
+};
+
+export type Drawdown = {
+  // Percent below the running peak, so always <= 0.
+  change: number;
+  peakTs: number;
+  troughTs: number;
+  // First bar back at the peak; null while the series is still under water.
+  recoveryTs: number | null;
+};
+
+export type MonthlyReturnRow = {
+  year: number;
+  // January first; null for months the window does not cover.
+  months: Array<number | null>;
+  // Compounded over the months present.
+  total: number | null;
+};
+
+export type Analytics = {
+  annualizedReturn: number | null;
+  annualizedVolatility: number | null;
+  // Annualized return over annualized volatility, with no risk-free rate taken off.
+  sharpe: number | null;
+  maxDrawdown: Drawdown | null;
+  extremes: Record<ReturnPeriod, PeriodExtremes | null>;
+  monthly: MonthlyReturnRow[];
+};
+
+const DAY_SECONDS = 86_400;
+const YEAR_SECONDS = 365.25 * DAY_SECONDS;
+const KST_OFFSET_SECONDS = 9 * 3_600;
+
+// A period's returns only mean something when bars are at least that fine; weekly bars have no daily returns.
+const PERIOD_SECONDS: Record<ReturnPeriod, number> = {
+  day: DAY_SECONDS,
+  week: 7 * DAY_SECONDS,
+  month: 31 * DAY_SECONDS,
+};
+
+function kstDay(ts: number): number {
+  return Math.floor((ts + KST_OFFSET_SECONDS) / DAY_SECONDS);
+}
+
+// Day 0 (1970-01-01) was a Thursday, so shifting by three starts each week on Monday.
+function periodKey(ts: number, period: ReturnPeriod): number {
+  const day = kstDay(ts);
+  if (period === "day") {
+    return day;
+  }
+  if (period === "week") {
+    return Math.floor((day + 3) / 7);
+  }
+  const date = new Date(day * DAY_SECONDS * 1000);
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function toPercent(from: number, to: number): number {
+  return (to / from - 1) * 100;
+}
+
+// Close-to-close returns between the last bars of consecutive periods. The window's first period
+// runs from its first bar, so a window that starts mid-month still gets that month's partial return.
+function periodReturns(series: SeriesPoint[], period: ReturnPeriod): Array<PeriodReturn & { key: number }> {
+  const lasts: Array<{ key: number; point: SeriesPoint }> = [];
+  for (const point of series) {
+    const key = periodKey(point.ts, period);
+    if (lasts.length > 0 && lasts[lasts.length - 1].key === key) {
+      lasts[lasts.length - 1].point = point;
+    } else {
+      lasts.push({ key, point });
+    }
+  }
+
+  return lasts
+    .map(({ key, point }, idx) => ({
+      key,
+      ts: point.ts,
+      base: idx === 0 ? series[0] : lasts[idx - 1].point,
+      point,
+    }))
+    .filter(({ base, point }) => base !== point)
+    .map(({ key, ts, base, point }) => ({ key, ts, change: toPercent(base.close, point.close) }));
+}
+
+function findExtremes(returns: PeriodReturn[]): PeriodExtremes | null {
+  if (returns.length === 0) {
+    return null;
+  }
+
+  let best = returns[0];
+  let worst = returns[0];
+  for (const item of returns) {
+    if (item.change > best.change) {
+      best = item;
+    }
+    if (item.change < worst.change) {
+      worst = item;
+    }
+  }
+  return { best: { ts: best.ts, change: best.change }, worst: { ts: worst.ts, change: worst.change } };
+}
+
+export function maxDrawdown(series: SeriesPoint[]): Drawdown | null {
+  if (series.length < 2) {
+    return null;
+  }
+
+  let peak = series[0];
+  let worst: Drawdown | null = null;
+  for (const point of series) {
+    if (point.close >= peak.close) {
+      if (worst && worst.recoveryTs === null && worst.peakTs === peak.ts) {
+        worst.recoveryTs = point.ts;
+      }
+      peak = point;
+      continue;
+    }
+
+    const change = toPercent(peak.close, point.close);
+    if (worst === null || change < worst.change) {
+      worst = { change, peakTs: peak.ts, troughTs: point.ts, recoveryTs: null };
+    }
+  }
+  return worst;
+}
+
+export function monthlyReturns(series: SeriesPoint[]): MonthlyReturnRow[] {
+  const rows = new Map<number, MonthlyReturnRow>();
+  for (const { key, change } of periodReturns(series, "month")) {
+    const year = Math.floor(key / 12);
+    const row = rows.get(year) ?? { year, months: Array<number | null>(12).fill(null), total: null };
+    row.months[key % 12] = change;
+    row.total = ((1 + (row.total ?? 0) / 100) * (1 + change / 100) - 1) * 100;
+    rows.set(year, row);
+  }
+  return [...rows.values()].sort((a, b) => a.year - b.year);
+}
+
+// Volatility scales bar-to-bar log returns by how many bars the window actually holds per year,
+// so closed hours and weekends do not count as bars that never happened.
+export function computeAnalytics(input: SeriesPoint[]): Analytics {
+  const series = input.filter((point) => Number.isFinite(point.close) && point.close > 0);
+  const empty: Analytics = {
+    annualizedReturn: null,
+    annualizedVolatility: null,
+    sharpe: null,
+    maxDrawdown: null,
+    extremes: { day: null, week: null, month: null },
+    monthly: [],
+  };
+  if (series.length < 2) {
+    return empty;
+  }
+
+  const first = series[0];
+  const last = series[series.length - 1];
+  const years = (last.ts - first.ts) / YEAR_SECONDS;
+  if (years <= 0) {
+    return empty;
+  }
+
+  const annualizedReturn = ((last.close / first.close) ** (1 / years) - 1) * 100;
+
+  const logReturns = series.slice(1).map((point, idx) => Math.log(point.close / series[idx].close));
+  let annualizedVolatility: number | null = null;
+  if (logReturns.length >= 2) {
+    const mean = logReturns.reduce((sum, value) => sum + value, 0) / logReturns.length;
+    const variance = logReturns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (logReturns.length - 1);
+    annualizedVolatility = Math.sqrt(variance * (logReturns.length / years)) * 100;
+  }
+
+  const barSeconds = median(series.slice(1).map((point, idx) => point.ts - series[idx].ts));
+  const extremesFor = (period: ReturnPeriod) =>
+    barSeconds <= PERIOD_SECONDS[period] ? findExtremes(periodReturns(series, period)) : null;
+
+  return {
+    annualizedReturn,
+    annualizedVolatility,
+    sharpe: annualizedVolatility ? annualizedReturn / annualizedVolatility : null,
+    maxDrawdown: maxDrawdown(series),
+    extremes: { day: extremesFor("day"), week: extremesFor("week"), month: extremesFor("month") },
+    monthly: barSeconds <= PERIOD_SECONDS.month ? monthlyReturns(series) : [],
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { parseBenchmarks, periodReturn } from "./benchmarks";
+
+describe("parseBenchmarks", () => {
+  it("selects none when the parameter is absent or empty", () => {
+    expect(parseBenchmarks(null)).toEqual([]);
+    expect(parseBenchmarks("")).toEqual([]);
+  });
+
+  it("returns known ids once each, in catalog order", () => {
+    expect(parseBenchmarks("USDKRW, kospi,usdkrw")).toEqual(["kospi", "usdkrw"]);
+  });
+
+  it("rejects the whole list when any id is unknown", () => {
+    expect(parseBenchmarks("kospi,nasdaq")).toBeNull();
+  });
+});
+
+describe("periodReturn", () => {
+  it("measures from the first to the last close, skipping gaps", () => {
+    expect(periodReturn([null, 2_000, null, 2_100, 2_200])).toBeCloseTo(10, 10);
+  });
+
+  it("needs at least two closes", () => {
+    expect(periodReturn([null, 2_000, null])).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import type { BenchmarkInstrument } from "@/lib/market";
+
+// USD/KRW doubles as a benchmark: it is the won-holder's alternative to holding gold.
+export type Benchmark = BenchmarkInstrument | "usdkrw";
+
+type BenchmarkInfo = {
+  id: Benchmark;
+  label: string;
+};
+
+export const BENCHMARKS: BenchmarkInfo[] = [
+  { id: "kospi", label: "코스피" },
+  { id: "sp500", label: "S&P 500" },
+  { id: "btcusd", label: "비트코인" },
+  { id: "usdkrw", label: "원/달러" },
+];
+
+// A comma-separated list; an absent or empty parameter selects none. Returned in BENCHMARKS order.
+export function parseBenchmarks(value: string | null): Benchmark[] | null {
+  if (value === null || value.trim() === "") {
+    return [];
+  }
+
+  const ids = value.split(",").map((item) => item.trim().toLowerCase());
+  if (ids.some((id) => !BENCHMARKS.some((item) => item.id === id))) {
+    return null;
+  }
+  return BENCHMARKS.map((item) => item.id).filter((id) => ids.includes(id));
+}
+
+// Percent change from the first to the last close in the series, skipping bars with none.
+export function periodReturn(closes: Array<number | null>): number | null {
+  const values = closes.filter((value): value is number => value !== null);
+  if (values.length < 2 || values[0] === 0) {
+    return null;
+  }
+  return ((values[values.length - 1] - values[0]) / values[0]) * 100;
+}
@@ -0,0 +1,55 @@
+const KST_OFFSET_SECONDS = 9 * 3_600;
+
+function niceStep(rough: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const fraction = rough / magnitude;
+  const nice = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 2.5 ? 2.5 : fraction <= 5 ? 5 : 10;
+  return nice * magnitude;
+}
+
+// Round-numbered ticks inside [min, max], roughly `count` of them.
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max) || count < 1) {
+    return [];
+  }
+  if (min === max) {
+    return [min];
+  }
+
+  const step = niceStep((max - min) / count);
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-9; value += step) {
+    // Multiplying back out avoids accumulating float error across steps.
+    ticks.push(Number((Math.round(value / step) * step).toPrecision(12)));
+  }
+  return ticks;
+}
+
+// Evenly spaced indices into a series of `length` points, always including both ends.
+export function pickTickIndices(length: number, count = 5): number[] {
+  if (length <= 0) {
+    return [];
+  }
+  if (length <= count) {
+    return Array.from({ length }, (_, idx) => idx);
+  }
+
+  const indices = Array.from({ length: count }, (_, idx) => Math.round((idx / (count - 1)) * (length - 1)));
+  return [...new Set(indices)];
+}
+
+// Labels get coarser as the visible span grows: times within a couple of days, then days, then months.
+export function formatKstTick(ts: number, spanSeconds: number): string {
+  const kst = new Date((ts + KST_OFFSET_SECONDS) * 1000).toISOString();
+  const year = kst.slice(0, 4);
+  const month = kst.slice(5, 7);
+  const day = kst.slice(8, 10);
+
+  if (spanSeconds <= 2 * 86_400) {
+    return `${month}.${day} ${kst.slice(11, 16)}`;
+  }
+  if (spanSeconds <= 2 * 366 * 86_400) {
+    return `${month}.${day}`;
+  }
+  return `${year}.${month}`;
+}
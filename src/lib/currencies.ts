@@ -0,0 +1,41 @@
+import type { FxInstrument } from "@/lib/market";
+
+export type Currency = "KRW" | "USD" | "JPY" | "CNY" | "EUR";
+
+type CurrencyInfo = {
+  id: Currency;
+  // Korean name of the currency ("엔화") and of its unit ("엔").
+  label: string;
+  unit: string;
+  digits: number;
+  // Quotes units of the currency per US dollar; USD itself needs no quote.
+  instrument: FxInstrument | null;
+};
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { id: "KRW", label: "원화", unit: "원", digits: 0, instrument: "usdkrw" },
+  { id: "USD", label: "달러화", unit: "달러", digits: 2, instrument: null },
+  { id: "JPY", label: "엔화", unit: "엔", digits: 0, instrument: "usdjpy" },
+  { id: "CNY", label: "위안화", unit: "위안", digits: 2, instrument: "usdcny" },
+  { id: "EUR", label: "유로화", unit: "유로", digits: 2, instrument: "usdeur" },
+];
+
+// Stands in for a USD quote series: one dollar per dollar from the start of time.
+export const USD_PER_USD = [{ ts: 0, close: 1 }];
+
+export function parseCurrency(value: string | null): Currency | null {
+  if (value === null) {
+    return "KRW";
+  }
+  const id = value.toUpperCase();
+  return CURRENCIES.some((item) => item.id === id) ? (id as Currency) : null;
+}
+
+export function getCurrency(currency: Currency): CurrencyInfo {
+  return CURRENCIES.find((item) => item.id === currency) ?? CURRENCIES[0];
+}
+
+// Cross rate through the dollar: both rates are units per USD, so KRW -> USD -> the quote currency.
+export function convertFromKrw(krw: number, usdKrw: number, perUsd: number): number {
+  return (krw / usdKrw) * perUsd;
+}
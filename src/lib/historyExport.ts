@@ -0,0 +1,65 @@
+export const HISTORY_COLUMNS = [
+  "usdPerOunce",
+  "usdKrw",
+  "krwPerGram",
+  "domesticKrwPerGram",
+  "premiumKrwPerGram",
+  "premiumPercent",
+  "goldSilverRatio",
+  "fxRate",
+  "perGram",
+  "domesticPerGram",
+  "premiumPerGram",
+] as const;
+
+export type HistoryColumn = (typeof HISTORY_COLUMNS)[number];
+
+export type ExportFormat = "csv" | "json";
+
+export type ExportablePoint = { ts: number } & Record<HistoryColumn, number | null>;
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+export function parseExportFormat(value: string | null): ExportFormat | null {
+  return value === "csv" || value === "json" ? value : null;
+}
+
+// A missing or empty list means every column; any unknown name rejects the whole list.
+export function parseColumns(value: string | null): HistoryColumn[] | null {
+  if (value === null || value.trim() === "") {
+    return [...HISTORY_COLUMNS];
+  }
+
+  const names = value.split(",").map((name) => name.trim());
+  if (!names.every((name): name is HistoryColumn => (HISTORY_COLUMNS as readonly string[]).includes(name))) {
+    return null;
+  }
+  return [...new Set(names)];
+}
+
+// "YYYY-MM-DD HH:mm" in KST, which is how the domestic market quotes its own timestamps.
+export function formatKstTimestamp(ts: number): string {
+  const kst = new Date(ts * 1000 + KST_OFFSET_MS).toISOString();
+  return `${kst.slice(0, 10)} ${kst.slice(11, 16)}`;
+}
+
+export function toCsv(points: ExportablePoint[], columns: HistoryColumn[]): string {
+  const header = ["timeKst", "ts", ...columns].join(",");
+  const rows = points.map((point) =>
+    [formatKstTimestamp(point.ts), String(point.ts), ...columns.map((column) => point[column] ?? "")].join(","),
+  );
+  return `${[header, ...rows].join("\n")}\n`;
+}
+
+export function toJsonRows(points: ExportablePoint[], columns: HistoryColumn[]): Array<Record<string, string | number | null>> {
+  return points.map((point) => ({
+    timeKst: formatKstTimestamp(point.ts),
+    ts: point.ts,
+    ...Object.fromEntries(columns.map((column) => [column, point[column]])),
+  }));
+}
+
+export function getExportFilename(metal: string, range: string, format: ExportFormat, now = new Date()): string {
+  const day = formatKstTimestamp(Math.floor(now.getTime() / 1000)).slice(0, 10).replace(/-/g, "");
+  return `${metal}-history-${range}-${day}.${format}`;
+}
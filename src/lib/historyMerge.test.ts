@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { mergeGoldAndFx } from "./historyMerge";
+import { OUNCE_TO_GRAM } from "./metals";
+
+describe("mergeGoldAndFx", () => {
+  it("converts each bar to KRW per gram with the premium over it", () => {
+    const [point] = mergeGoldAndFx(
+      [{ ts: 100, close: 2_400 }],
+      [{ ts: 100, close: 1_350 }],
+      [{ ts: 50, close: 110_000 }],
+      [],
+      [],
+    );
+    const krwPerGram = (2_400 * 1_350) / OUNCE_TO_GRAM;
+    expect(point.krwPerGram).toBeCloseTo(krwPerGram, 8);
+    expect(point.domesticKrwPerGram).toBe(110_000);
+    expect(point.premiumKrwPerGram).toBeCloseTo(110_000 - krwPerGram, 8);
+    expect(point.premiumPercent).toBeCloseTo(((110_000 - krwPerGram) / krwPerGram) * 100, 8);
+  });
+
+  it("carries the latest FX and domestic close forward across misaligned timestamps", () => {
+    const points = mergeGoldAndFx(
+      [
+        { ts: 100, close: 1 },
+        { ts: 200, close: 2 },
+        { ts: 300, close: 3 },
+      ],
+      [
+        { ts: 150, close: 1_300 },
+        { ts: 250, close: 1_310 },
+      ],
+      [{ ts: 200, close: 100_000 }],
+      [],
+      [],
+    );
+    expect(points.map((point) => point.usdKrw)).toEqual([1_300, 1_300, 1_310]);
+    expect(points.map((point) => point.domesticKrwPerGram)).toEqual([null, 100_000, 100_000]);
+    expect(points[0].premiumKrwPerGram).toBeNull();
+    expect(points[0].premiumPercent).toBeNull();
+  });
+
+  it("computes the gold/silver ratio only where both legs have a close", () => {
+    const points = mergeGoldAndFx(
+      [
+        { ts: 100, close: 30 },
+        { ts: 200, close: 31 },
+      ],
+      [{ ts: 100, close: 1_300 }],
+      [],
+      [{ ts: 100, close: 2_400 }],
+      [{ ts: 200, close: 30 }],
+    );
+    expect(points.map((point) => point.goldSilverRatio)).toEqual([null, 80]);
+  });
+
+  it("prices any quote currency, crossing KRX closes through the won", () => {
+    const points = mergeGoldAndFx(
+      [
+        { ts: 100, close: 2_400 },
+        { ts: 200, close: 2_410 },
+      ],
+      [{ ts: 100, close: 1_350 }],
+      [{ ts: 100, close: 110_000 }],
+      [],
+      [],
+      [
+        { ts: 150, close: 155 },
+        { ts: 250, close: 156 },
+      ],
+    );
+    // The first bar predates the first yen close, so it borrows it like the won leg does.
+    expect(points.map((point) => point.fxRate)).toEqual([155, 155]);
+    const jpyPerGram = (2_400 * 155) / OUNCE_TO_GRAM;
+    const domesticJpyPerGram = (110_000 / 1_350) * 155;
+    expect(points[0].perGram).toBeCloseTo(jpyPerGram, 8);
+    expect(points[0].domesticPerGram).toBeCloseTo(domesticJpyPerGram, 8);
+    expect(points[0].premiumPerGram).toBeCloseTo(domesticJpyPerGram - jpyPerGram, 8);
+    // Both legs convert at the same rate, so the premium percentage does not depend on the currency.
+    expect(points[0].premiumPercent).toBeCloseTo(((domesticJpyPerGram - jpyPerGram) / jpyPerGram) * 100, 8);
+    expect(points[0].krwPerGram).toBeCloseTo((2_400 * 1_350) / OUNCE_TO_GRAM, 8);
+  });
+
+  it("repeats the won fields when no quote currency is given", () => {
+    const [point] = mergeGoldAndFx([{ ts: 100, close: 2_400 }], [{ ts: 100, close: 1_350 }], [], [], []);
+    expect(point.fxRate).toBe(1_350);
+    expect(point.perGram).toBe(point.krwPerGram);
+    expect(point.domesticPerGram).toBeNull();
+  });
+
+  it("returns nothing without a metal or FX series", () => {
+    expect(mergeGoldAndFx([], [{ ts: 100, close: 1_300 }], [], [], [])).toEqual([]);
+    expect(mergeGoldAndFx([{ ts: 100, close: 2_400 }], [], [], [], [])).toEqual([]);
+    expect(mergeGoldAndFx([{ ts: 100, close: 2_400 }], [{ ts: 100, close: 1_300 }], [], [], [], [])).toEqual([]);
+  });
+});
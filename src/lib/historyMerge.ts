@@ -0,0 +1,112 @@
+import { convertFromKrw } from "@/lib/currencies";
+import type { SeriesPoint } from "@/lib/market";
+import { usdPerOunceToKrwPerGram, usdPerOunceToPerGram } from "@/lib/metals";
+
+// The *PerGram fields are in the requested quote currency (`fxRate` units per USD);
+// for KRW they repeat the won fields.
+export type HistoryPoint = {
+  ts: number;
+  usdPerOunce: number;
+  usdKrw: number;
+  krwPerGram: number;
+  domesticKrwPerGram: number | null;
+  premiumKrwPerGram: number | null;
+  premiumPercent: number | null;
+  goldSilverRatio: number | null;
+  fxRate: number;
+  perGram: number;
+  domesticPerGram: number | null;
+  premiumPerGram: number | null;
+};
+
+type Series = SeriesPoint[];
+
+// Returns a lookup of the latest close at or before `ts`; calls must come in ascending `ts` order.
+function createAsOfLookup(series: Series): (ts: number) => number | null {
+  let index = -1;
+  return (ts) => {
+    while (index + 1 < series.length && series[index + 1].ts <= ts) {
+      index += 1;
+    }
+    return index >= 0 ? series[index].close : null;
+  };
+}
+
+// Each metal bar takes the latest FX, domestic and ratio closes at or before it.
+// Works for any metal: `metalSeries` is USD/oz, `domesticSeries` is only non-empty for gold.
+// `quoteFxSeries` (units per USD) picks the quote currency; KRX closes reach it through the KRW cross rate.
+// `domesticAt` maps a bar to the moment its KRX close is looked up at, e.g. the end of a daily bar.
+export function mergeGoldAndFx(
+  metalSeries: Series,
+  fxSeries: Series,
+  domesticSeries: Series,
+  goldSeries: Series,
+  silverSeries: Series,
+  quoteFxSeries: Series = fxSeries,
+  domesticAt: (ts: number) => number = (ts) => ts,
+): HistoryPoint[] {
+  if (metalSeries.length === 0 || fxSeries.length === 0 || quoteFxSeries.length === 0) {
+    return [];
+  }
+
+  const points: HistoryPoint[] = [];
+  let fxIndex = 0;
+  let domesticIndex = -1;
+  const goldAt = createAsOfLookup(goldSeries);
+  const silverAt = createAsOfLookup(silverSeries);
+  const quoteFxAt = createAsOfLookup(quoteFxSeries);
+
+  for (const metalPoint of metalSeries) {
+    while (fxIndex + 1 < fxSeries.length && fxSeries[fxIndex + 1].ts <= metalPoint.ts) {
+      fxIndex += 1;
+    }
+
+    const domesticTs = domesticAt(metalPoint.ts);
+    while (domesticIndex + 1 < domesticSeries.length && domesticSeries[domesticIndex + 1].ts <= domesticTs) {
+      domesticIndex += 1;
+    }
+
+    const fxPoint = fxSeries[fxIndex];
+    if (!fxPoint) {
+      continue;
+    }
+
+    const usdPerOunce = metalPoint.close;
+    const usdKrw = fxPoint.close;
+    const krwPerGram = usdPerOunceToKrwPerGram(usdPerOunce, usdKrw);
+    const domesticKrwPerGram = domesticIndex >= 0 ? domesticSeries[domesticIndex].close : null;
+    const premiumKrwPerGram = domesticKrwPerGram === null ? null : domesticKrwPerGram - krwPerGram;
+    // Like the KRW leg, bars before the first quote close borrow its earliest one.
+    const fxRate = quoteFxAt(metalPoint.ts) ?? quoteFxSeries[0].close;
+    const perGram = usdPerOunceToPerGram(usdPerOunce, fxRate);
+    const domesticPerGram = domesticKrwPerGram === null ? null : convertFromKrw(domesticKrwPerGram, usdKrw, fxRate);
+
+    points.push({
+      ts: metalPoint.ts,
+      usdPerOunce,
+      usdKrw,
+      krwPerGram,
+      domesticKrwPerGram,
+      premiumKrwPerGram,
+      premiumPercent: premiumKrwPerGram === null ? null : (premiumKrwPerGram / krwPerGram) * 100,
+      goldSilverRatio: toRatio(goldAt(metalPoint.ts), silverAt(metalPoint.ts)),
+      fxRate,
+      perGram,
+      domesticPerGram,
+      premiumPerGram: domesticPerGram === null ? null : domesticPerGram - perGram,
+    });
+  }
+
+  return points;
+}
+
+// Lines a comparison series up with the merged bars the same way the FX leg is, except that bars
+// before its first close stay null instead of borrowing it, so period returns start at a real close.
+export function alignToPoints(points: HistoryPoint[], series: Series): Array<number | null> {
+  const closeAt = createAsOfLookup(series);
+  return points.map((point) => closeAt(point.ts));
+}
+
+function toRatio(numerator: number | null, denominator: number | null): number | null {
+  return numerator !== null && denominator ? numerator / denominator : null;
+}
@@ -0,0 +1,89 @@
+export type HistoryInterval = "1m" | "5m" | "15m" | "30m" | "1h" | "1d" | "1wk" | "1mo";
+
+type IntervalRule = {
+  seconds: number;
+  // How far back from now Yahoo serves this interval at all.
+  lookbackDays: number | null;
+  // Widest single request Yahoo serves at this interval.
+  maxSpanDays: number | null;
+};
+
+// Ordered fine to coarse; pickInterval walks this list.
+export const HISTORY_INTERVALS: Record<HistoryInterval, IntervalRule> = {
+  "1m": { seconds: 60, lookbackDays: 30, maxSpanDays: 7 },
+  "5m": { seconds: 300, lookbackDays: 60, maxSpanDays: null },
+  "15m": { seconds: 900, lookbackDays: 60, maxSpanDays: null },
+  "30m": { seconds: 1_800, lookbackDays: 60, maxSpanDays: null },
+  "1h": { seconds: 3_600, lookbackDays: 730, maxSpanDays: null },
+  "1d": { seconds: 86_400, lookbackDays: null, maxSpanDays: null },
+  "1wk": { seconds: 7 * 86_400, lookbackDays: null, maxSpanDays: null },
+  "1mo": { seconds: 30 * 86_400, lookbackDays: null, maxSpanDays: null },
+};
+
+// Keeps a single response (and the chart drawing it) to a sane size.
+const MAX_POINTS = 5_000;
+
+// Target bar size by span, before the lookback limits are applied.
+const AUTO_INTERVALS: Array<{ maxSpanDays: number; interval: HistoryInterval }> = [
+  { maxSpanDays: 2, interval: "5m" },
+  { maxSpanDays: 8, interval: "30m" },
+  { maxSpanDays: 62, interval: "1h" },
+  { maxSpanDays: 3 * 366, interval: "1d" },
+  { maxSpanDays: 15 * 366, interval: "1wk" },
+];
+
+const DAY_SECONDS = 86_400;
+
+// Own keys only: "toString" and friends are on every object's prototype.
+export function parseInterval(value: string): HistoryInterval | null {
+  return Object.hasOwn(HISTORY_INTERVALS, value) ? (value as HistoryInterval) : null;
+}
+
+// Accepts a KST calendar day (YYYY-MM-DD) or a full ISO timestamp. A bare `to` day covers the whole day.
+export function parseDateParam(value: string, endOfDay: boolean): number | null {
+  const ms = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? Date.parse(`${value}T00:00:00+09:00`) + (endOfDay ? DAY_SECONDS * 1000 - 1000 : 0)
+    : Date.parse(value);
+  return Number.isFinite(ms) ? Math.floor(ms / 1000) : null;
+}
+
+// Yahoo stamps daily and longer bars at their open; this is when such a bar's close was set.
+// Monthly bars run to the same day of the next calendar month rather than a fixed 30 days.
+export function toBarEnd(ts: number, interval: HistoryInterval): number {
+  if (interval !== "1mo") {
+    return ts + HISTORY_INTERVALS[interval].seconds;
+  }
+  const end = new Date(ts * 1000);
+  end.setUTCMonth(end.getUTCMonth() + 1);
+  return Math.floor(end.getTime() / 1000);
+}
+
+export function checkInterval(interval: HistoryInterval, sinceTs: number, untilTs: number, nowTs: number): string | null {
+  const rule = HISTORY_INTERVALS[interval];
+  const spanDays = (untilTs - sinceTs) / DAY_SECONDS;
+
+  if (rule.lookbackDays !== null && (nowTs - sinceTs) / DAY_SECONDS > rule.lookbackDays) {
+    return `Interval ${interval} is only available for the last ${rule.lookbackDays} days`;
+  }
+  if (rule.maxSpanDays !== null && spanDays > rule.maxSpanDays) {
+    return `Interval ${interval} cannot span more than ${rule.maxSpanDays} days`;
+  }
+  if ((untilTs - sinceTs) / rule.seconds > MAX_POINTS) {
+    return `Interval ${interval} would return more than ${MAX_POINTS} points; choose a coarser interval`;
+  }
+  return null;
+}
+
+export function pickInterval(sinceTs: number, untilTs: number, nowTs: number): HistoryInterval {
+  const spanDays = (untilTs - sinceTs) / DAY_SECONDS;
+  const target = AUTO_INTERVALS.find((item) => spanDays <= item.maxSpanDays)?.interval ?? "1mo";
+  const ordered = Object.keys(HISTORY_INTERVALS) as HistoryInterval[];
+
+  // Older windows fall back to the finest interval Yahoo still serves for them.
+  for (const interval of ordered.slice(ordered.indexOf(target))) {
+    if (checkInterval(interval, sinceTs, untilTs, nowTs) === null) {
+      return interval;
+    }
+  }
+  return "1mo";
+}
@@ -0,0 +1,247 @@
+import type { Messages } from "./ko";
+
+export const en: Messages = {
+  meta: {
+    description: "Live domestic and international gold prices for Korea, side by side",
+    language: "Language",
+  },
+  metals: {
+    gold: "Gold",
+    silver: "Silver",
+    platinum: "Platinum",
+    palladium: "Palladium",
+  },
+  currencies: {
+    KRW: { label: "KRW", unit: "KRW" },
+    USD: { label: "USD", unit: "USD" },
+    JPY: { label: "JPY", unit: "JPY" },
+    CNY: { label: "CNY", unit: "CNY" },
+    EUR: { label: "EUR", unit: "EUR" },
+  },
+  withUnit: (amount, unit) => `${amount} ${unit}`,
+  benchmarks: {
+    kospi: "KOSPI",
+    sp500: "S&P 500",
+    btcusd: "Bitcoin",
+    usdkrw: "USD/KRW",
+  },
+  ranges: {
+    "1mo": "1M",
+    "6mo": "6M",
+    "1y": "1Y",
+    "10y": "10Y",
+    "20y": "20Y",
+  },
+  sources: {
+    ok: "OK",
+    stale: "Delayed",
+    error: "Error",
+    age: (seconds) => `${seconds}s ago`,
+  },
+  sessions: {
+    live: "Trading",
+    "pre-open": "Pre-open",
+    closed: "Closed",
+    closesAt: (time) => `Closes ${time} (KST)`,
+    opensAt: (time) => `Next open ${time} (KST)`,
+  },
+  header: {
+    title: (metal) => `Live ${metal} Price Dashboard`,
+    subtitleGold: "Korean spot gold (KRX 99.99% 1kg, per gram) next to the international price",
+    subtitleMetal: (metal) => `International ${metal} (USD/oz) and its per-gram price in won`,
+    currencies: "Display currency",
+    currencyTitle: (label) => `Show per-gram prices in ${label}`,
+  },
+  modes: {
+    live: "Live",
+    history: "History",
+    portfolio: "My holdings",
+  },
+  errors: {
+    spot: "Could not load live prices.",
+    history: "Could not load price history.",
+    historyQuery: (reason) => `Please check the query. (${reason})`,
+    missingFrom: "Please choose a start date.",
+  },
+  live: {
+    loading: "Loading live prices...",
+    domesticLabel: "Korean gold (KRX 99.99% 1kg spot)",
+    domesticReference: "Reference: KRX 99.99% 1kg spot gold",
+    dayChange: "vs. previous close",
+    dayChangeUsd: "vs. previous close, USD",
+    globalLabel: (metal, currency) => `International ${metal} (in ${currency})`,
+    globalFormula: "USD/oz x FX rate",
+    goldOnly: "KRX only quotes gold domestically.",
+    premiumLabel: "Korea premium (domestic - converted international)",
+    premiumRich: "Korea trades rich",
+    premiumCheap: "Korea trades cheap",
+    globalPrice: (metal) => `International ${metal}`,
+    usdKrw: "USD/KRW",
+    perUsd: (unit) => `USD/${unit}`,
+    goldSilverRatio: "Gold/silver ratio",
+    updatedAt: (time) => `Last updated: ${time}`,
+    marketsClosed: "all markets are closed, so updates are less frequent",
+  },
+  chart: {
+    index: "Index",
+    resetZoom: "Reset zoom",
+    dragHint: "Drag to zoom",
+    maOff: "No MA",
+    bands: "Bollinger",
+    bandsLegend: "Bollinger bands (20, 2σ)",
+    ariaLabel: (metal) => `${metal} price chart`,
+    rsiAriaLabel: "RSI(14) chart",
+    goldenCross: "Golden cross",
+    deadCross: "Death cross",
+    domesticGram: "Domestic 1g",
+    convertedGram: (currency) => `1g in ${currency}`,
+    domesticIndex: (currency) => `Domestic (${currency}) index`,
+    convertedIndex: (currency) => `${currency} index`,
+    globalIndex: "International (USD) index",
+    globalOunce: "International",
+    benchmarksIndexOnly: "Benchmarks are shown on the index view",
+  },
+  history: {
+    custom: "Custom",
+    from: "Start date",
+    to: "End date (today if empty)",
+    apply: "Apply",
+    loading: "Calculating the selected period...",
+    latestDomestic: "Latest domestic 1g",
+    latestConverted: (currency) => `Latest 1g in ${currency}`,
+    periodChange: "Period change",
+    periodHigh: "Period high",
+    periodLow: "Period low",
+    premiumAriaLabel: "Korea gold premium chart",
+    premiumLegend: "Korea premium",
+    premiumAverage: "Average premium",
+    premiumHigh: "Highest premium",
+    premiumLow: "Lowest premium",
+    ratioAriaLabel: "Gold/silver ratio chart",
+    benchmarks: "Compare with",
+    benchmarkReturn: (label) => `${label} period return`,
+    span: (from, to, interval) => `Period: ${from} - ${to} · ${interval} bars`,
+  },
+  portfolio: {
+    domesticBasis: "Domestic price",
+    globalBasis: "Converted international price",
+    valueAriaLabel: "Holdings value chart",
+    valueLegend: "Value",
+    holdings: "Holdings",
+    grams: (grams, don) => `${grams} g (${don} don)`,
+    averageCost: "Average cost",
+    value: "Value",
+    pnl: "Unrealized P&L",
+    date: "Purchase date",
+    channel: "Purchased via",
+    weight: "Weight",
+    unit: "Unit",
+    paid: "Amount paid (KRW, incl. fees and VAT)",
+    add: "Add",
+    remove: "Remove",
+    invalidLot: "Please check the purchase date, weight and amount paid.",
+    imported: (count, rejected) =>
+      `Imported ${count} lot${count === 1 ? "" : "s"}.${rejected > 0 ? ` (${rejected} skipped as malformed)` : ""}`,
+    importFailed: "Could not read the file. Is it a JSON or CSV export from this app?",
+    exportJson: "Export JSON",
+    exportCsv: "Export CSV",
+    import: "Import",
+  },
+  calculator: {
+    title: (metal) => `${metal} units · real price calculator`,
+    openFees: "Fee settings",
+    closeFees: "Close fees",
+    weight: "Weight",
+    unit: "Unit",
+    channel: "Channel",
+    buy: "Buy",
+    sell: "Sell",
+    fees: (buy, sell) => `Fees ${buy}% / ${sell}%`,
+    vatIncluded: (vat) => `incl. ${vat} VAT`,
+    buyFee: (channel) => `${channel} buy fee %`,
+    sellFee: (channel) => `${channel} sell fee %`,
+    resetFees: "Reset to defaults",
+    noDomestic: "No domestic quote, so estimates use the converted international price. ",
+    estimateNote: "Estimates only; actual prices may differ.",
+  },
+  weightUnits: {
+    g: "g",
+    don: "don (3.75g)",
+    nyang: "nyang (37.5g)",
+    kg: "kg",
+    ozt: "troy oz",
+  },
+  channels: {
+    krx: { label: "KRX gold account", note: "VAT-free while held, 10% VAT on physical withdrawal" },
+    bank: { label: "Bank gold banking", note: "15.4% dividend tax on gains, 10% VAT on physical withdrawal" },
+    jewelry: { label: "Jeweler (physical)", note: "10% VAT included on purchase, making charges extra" },
+  },
+  alerts: {
+    title: "Price alerts",
+    notificationTitle: "Gold Pulse KR alert",
+    allowNotifications: "Allow browser notifications",
+    denied: "Browser notifications are blocked; alerts are only logged here.",
+    unsupported: "This browser does not support notifications.",
+    threshold: "Price level",
+    percentMove: "Move (%)",
+    percentPlaceholder: "Move %",
+    valuePlaceholder: "Level",
+    repeat: "Repeat",
+    once: "Once",
+    add: "Add",
+    invalid: "Please check the alert value.",
+    disable: "Turn off",
+    enable: "Turn on",
+    remove: "Delete",
+    history: "Alert history",
+    clear: "Clear",
+    metrics: {
+      domesticKrwPerGram: { label: "Domestic gold", unit: "KRW/g" },
+      goldPriceUsdPerOunce: { label: "International gold", unit: "USD/oz" },
+      usdKrw: { label: "USD/KRW", unit: "KRW" },
+      changePercent: { label: "Domestic daily change", unit: "%" },
+    },
+    conditions: {
+      above: "at or above",
+      below: "at or below",
+      crosses: "crosses",
+    },
+    describeMove: (metric, value, condition) => `${metric} moves ${value}% (${condition})`,
+    describeThreshold: (metric, value, unit, condition) => `${metric} ${condition} ${value} ${unit}`,
+    fired: (rule, value) => `${rule}: now ${value}`,
+    firedMove: (rule, move, value) => `${rule}: ${move}% (now ${value})`,
+    test: (message) => `[Test] ${message}`,
+  },
+  analytics: {
+    title: "Risk & return",
+    metric: "Metric",
+    krw: "KRW (1g)",
+    usd: "USD (1oz)",
+    annualizedReturn: "Annualized return",
+    annualizedVolatility: "Annualized volatility",
+    sharpe: "Return/risk ratio",
+    maxDrawdown: "Max drawdown",
+    drawdownSpan: (peak, trough) => `${peak} → ${trough}`,
+    recovered: (date) => `recovered ${date}`,
+    notRecovered: "not recovered",
+    best: { day: "Best day", week: "Best week", month: "Best month" },
+    worst: { day: "Worst day", week: "Worst week", month: "Worst month" },
+    heatmap: "Monthly returns",
+    heatmapBasis: "Monthly returns currency",
+    year: "Year",
+    total: "Total",
+    months: ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"],
+    notEnoughData: "Not enough data in this period to analyze.",
+    krwBasis: "KRW figures use the converted global price.",
+    sharpeNote: "The return/risk ratio is annualized return ÷ volatility, with no risk-free rate.",
+  },
+  offline: {
+    showingFrom: (time) => `Offline – showing data from ${time}`,
+    noData: "Offline – no saved data yet",
+  },
+  footer: {
+    defaultSource: "Domestic: KRX 99.99% 1kg spot gold (per gram). Global: Yahoo Finance (GC=F, KRW=X).",
+    mobile: "Mobile-friendly UI",
+    status: "Data source status",
+  },
+};
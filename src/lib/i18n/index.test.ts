@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { formatAmount, formatNumber, getMessages, LOCALES, parseLocale } from "./index";
+
+// Paths to every leaf of a catalog; functions count as leaves.
+function leafPaths(value: unknown, prefix = ""): string[] {
+  if (value === null || typeof value !== "object") {
+    return [prefix];
+  }
+  return Object.entries(value).flatMap(([key, child]) => leafPaths(child, prefix ? `${prefix}.${key}` : key));
+}
+
+describe("message catalogs", () => {
+  it("cover the same keys in every locale", () => {
+    const expected = leafPaths(getMessages("ko")).sort();
+    for (const { id } of LOCALES) {
+      expect(leafPaths(getMessages(id)).sort()).toEqual(expected);
+    }
+  });
+});
+
+describe("parseLocale", () => {
+  it("accepts known locales and rejects anything else", () => {
+    expect(parseLocale("en")).toBe("en");
+    expect(parseLocale("ko")).toBe("ko");
+    expect(parseLocale("EN")).toBeNull();
+    expect(parseLocale(42)).toBeNull();
+  });
+});
+
+describe("number formatting", () => {
+  it("pads to a fixed number of digits", () => {
+    expect(formatNumber(104_150.4, "ko", 0)).toBe("104,150");
+    expect(formatNumber(2_400.5, "en", 2)).toBe("2,400.50");
+  });
+
+  it("trims amounts without padding them", () => {
+    expect(formatAmount(3.75, "en", 4)).toBe("3.75");
+    expect(formatAmount(1, "ko", 2)).toBe("1");
+  });
+});
@@ -0,0 +1,62 @@
+import { en } from "./en";
+import { ko, type Messages } from "./ko";
+
+export type { Messages } from "./ko";
+
+export type Locale = "ko" | "en";
+
+// Each language is offered in its own name, whichever one is active.
+export const LOCALES: Array<{ id: Locale; label: string }> = [
+  { id: "ko", label: "한국어" },
+  { id: "en", label: "English" },
+];
+
+export const DEFAULT_LOCALE: Locale = "ko";
+
+// BCP 47 tags for Intl number and date formatting.
+const LOCALE_TAGS: Record<Locale, string> = {
+  ko: "ko-KR",
+  en: "en-US",
+};
+
+const MESSAGES: Record<Locale, Messages> = { ko, en };
+
+export function parseLocale(raw: unknown): Locale | null {
+  return LOCALES.some((item) => item.id === raw) ? (raw as Locale) : null;
+}
+
+export function getMessages(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
+
+export function formatNumber(value: number, locale: Locale, digits = 0): string {
+  return new Intl.NumberFormat(LOCALE_TAGS[locale], {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+}
+
+export function formatKrw(value: number, locale: Locale): string {
+  return formatNumber(value, locale, 0);
+}
+
+export function formatUsd(value: number, locale: Locale): string {
+  return formatNumber(value, locale, 2);
+}
+
+// Up to `digits` decimals, without padding: weights like 3.75 don or 1 kg.
+export function formatAmount(value: number, locale: Locale, digits: number): string {
+  return value.toLocaleString(LOCALE_TAGS[locale], { maximumFractionDigits: digits });
+}
+
+export function formatDateTime(
+  value: string | number,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = {},
+): string {
+  return new Date(value).toLocaleString(LOCALE_TAGS[locale], { hour12: false, ...options });
+}
+
+export function formatDate(value: string | number, locale: Locale): string {
+  return new Date(value).toLocaleDateString(LOCALE_TAGS[locale]);
+}
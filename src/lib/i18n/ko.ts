@@ -0,0 +1,225 @@
+import { ALERT_CONDITION_LABELS, ALERT_METRICS } from "@/lib/alerts";
+import { BENCHMARKS } from "@/lib/benchmarks";
+import { CURRENCIES } from "@/lib/currencies";
+import { METALS } from "@/lib/metals";
+import { PRICE_CHANNELS, WEIGHT_UNITS } from "@/lib/pricing";
+
+// The lib lists already carry the Korean labels (the server uses them too); the catalog only indexes them.
+function byId<T extends { id: string }, V>(items: T[], pick: (item: T) => V): Record<T["id"], V> {
+  return Object.fromEntries(items.map((item) => [item.id, pick(item)])) as Record<T["id"], V>;
+}
+
+export const ko = {
+  meta: {
+    description: "실시간 국내/국제 금 가격 비교 웹 앱",
+    language: "언어",
+  },
+  metals: byId(METALS, (item) => item.label),
+  currencies: byId(CURRENCIES, (item) => ({ label: item.label, unit: item.unit })),
+  // Korean writes units straight after the number: "104,150원".
+  withUnit: (amount: string, unit: string) => `${amount}${unit}`,
+  benchmarks: byId(BENCHMARKS, (item) => item.label),
+  ranges: {
+    "1mo": "1개월",
+    "6mo": "6개월",
+    "1y": "1년",
+    "10y": "10년",
+    "20y": "20년",
+  },
+  sources: {
+    ok: "정상",
+    stale: "지연",
+    error: "오류",
+    age: (seconds: number) => `${seconds}초 전`,
+  },
+  sessions: {
+    live: "거래 중",
+    "pre-open": "개장 전",
+    closed: "장 마감",
+    closesAt: (time: string) => `마감 ${time} (KST)`,
+    opensAt: (time: string) => `다음 개장 ${time} (KST)`,
+  },
+  header: {
+    title: (metal: string) => `실시간 ${metal} 가격 대시보드`,
+    subtitleGold: "국내 금 99.99_1kg 금현물(1g 환산)과 국제 금값을 동시에 확인",
+    subtitleMetal: (metal: string) => `국제 ${metal} 시세(USD/oz)와 원화 1g 환산가를 확인`,
+    currencies: "표시 통화",
+    currencyTitle: (label: string) => `1g 가격을 ${label}로 표시`,
+  },
+  modes: {
+    live: "실시간",
+    history: "과거 추이",
+    portfolio: "내 보유",
+  },
+  errors: {
+    spot: "실시간 데이터를 불러오지 못했습니다.",
+    history: "히스토리 데이터를 불러오지 못했습니다.",
+    historyQuery: (reason: string) => `조회 조건을 확인해 주세요. (${reason})`,
+    missingFrom: "시작일을 선택해 주세요.",
+  },
+  live: {
+    loading: "실시간 시세를 불러오는 중...",
+    domesticLabel: "국내 금값 (금 99.99_1kg 금현물)",
+    domesticReference: "참조: 금 99.99_1kg 금현물 기준",
+    dayChange: "전일 대비",
+    dayChangeUsd: "전일 대비, USD",
+    globalLabel: (metal: string, currency: string) => `국제 ${metal}값 (${currency} 환산)`,
+    globalFormula: "USD/oz x 환율",
+    goldOnly: "국내 KRX 시세는 금만 제공됩니다.",
+    premiumLabel: "국내 프리미엄 (국내 - 국제 환산)",
+    premiumRich: "국내가 비쌈",
+    premiumCheap: "국내가 저렴",
+    globalPrice: (metal: string) => `국제 ${metal} 가격`,
+    usdKrw: "원/달러",
+    perUsd: (unit: string) => `${unit}/달러`,
+    goldSilverRatio: "금/은 비율",
+    updatedAt: (time: string) => `마지막 갱신: ${time}`,
+    marketsClosed: "모든 시장이 휴장 중이라 갱신 주기를 늘렸습니다",
+  },
+  chart: {
+    index: "지수",
+    resetZoom: "전체 보기",
+    dragHint: "드래그해서 확대",
+    maOff: "이평선 끔",
+    bands: "볼린저",
+    bandsLegend: "볼린저 밴드 (20, 2σ)",
+    ariaLabel: (metal: string) => `${metal} 가격 추이 차트`,
+    rsiAriaLabel: "RSI(14) 차트",
+    goldenCross: "골든크로스",
+    deadCross: "데드크로스",
+    domesticGram: "국내 1g",
+    convertedGram: (currency: string) => `${currency} 환산 1g`,
+    domesticIndex: (currency: string) => `국내(${currency}) 지수`,
+    convertedIndex: (currency: string) => `${currency} 환산 지수`,
+    globalIndex: "국제(달러) 지수",
+    globalOunce: "국제",
+    benchmarksIndexOnly: "비교 지수는 지수 보기에서 표시됩니다",
+  },
+  history: {
+    custom: "직접 선택",
+    from: "시작일",
+    to: "종료일 (비우면 오늘)",
+    apply: "조회",
+    loading: "기간별 데이터를 계산하는 중...",
+    latestDomestic: "최신 국내 1g",
+    latestConverted: (currency: string) => `최신 ${currency} 환산 1g`,
+    periodChange: "기간 상승률",
+    periodHigh: "기간 최고가",
+    periodLow: "기간 최저가",
+    premiumAriaLabel: "국내 금 프리미엄 추이 차트",
+    premiumLegend: "국내 프리미엄",
+    premiumAverage: "평균 프리미엄",
+    premiumHigh: "최고 프리미엄",
+    premiumLow: "최저 프리미엄",
+    ratioAriaLabel: "금/은 비율 추이 차트",
+    benchmarks: "비교 지수",
+    benchmarkReturn: (label: string) => `${label} 기간 수익률`,
+    span: (from: string, to: string, interval: string) => `조회 구간: ${from} ~ ${to} · ${interval} 간격`,
+  },
+  portfolio: {
+    domesticBasis: "국내 금값 기준",
+    globalBasis: "국제 금값 환산 기준",
+    valueAriaLabel: "보유 금 평가 금액 추이 차트",
+    valueLegend: "평가 금액",
+    holdings: "보유량",
+    grams: (grams: string, don: string) => `${grams}g (${don}돈)`,
+    averageCost: "평균 매입가",
+    value: "평가 금액",
+    pnl: "평가 손익",
+    date: "매입일",
+    channel: "매입 채널",
+    weight: "중량",
+    unit: "단위",
+    paid: "매입 금액 (원, 수수료·부가세 포함)",
+    add: "추가",
+    remove: "삭제",
+    invalidLot: "매입일, 중량, 매입 금액을 확인해 주세요.",
+    imported: (count: number, rejected: number) =>
+      `${count}건을 가져왔습니다.${rejected > 0 ? ` (${rejected}건 형식 오류로 제외)` : ""}`,
+    importFailed: "파일을 읽지 못했습니다. JSON 또는 CSV 내보내기 형식인지 확인해 주세요.",
+    exportJson: "JSON 내보내기",
+    exportCsv: "CSV 내보내기",
+    import: "가져오기",
+  },
+  calculator: {
+    title: (metal: string) => `${metal} 단위 · 실구매가 계산기`,
+    openFees: "수수료 설정",
+    closeFees: "수수료 닫기",
+    weight: "중량",
+    unit: "단위",
+    channel: "채널",
+    buy: "살 때",
+    sell: "팔 때",
+    fees: (buy: number, sell: number) => `수수료 ${buy}% / ${sell}%`,
+    vatIncluded: (vat: string) => `부가세 ${vat} 포함`,
+    buyFee: (channel: string) => `${channel} 살 때 수수료 %`,
+    sellFee: (channel: string) => `${channel} 팔 때 수수료 %`,
+    resetFees: "기본값으로",
+    noDomestic: "국내 시세가 없어 원화 환산가 기준으로 추정합니다. ",
+    estimateNote: "추정치이며 실제 거래가와 다를 수 있습니다.",
+  },
+  weightUnits: byId(WEIGHT_UNITS, (item) => item.label),
+  channels: byId(PRICE_CHANNELS, (item) => ({ label: item.label, note: item.note })),
+  alerts: {
+    title: "가격 알림",
+    notificationTitle: "Gold Pulse KR 알림",
+    allowNotifications: "브라우저 알림 허용",
+    denied: "브라우저 알림이 차단되어 앱 내 기록만 남습니다.",
+    unsupported: "이 브라우저는 알림을 지원하지 않습니다.",
+    threshold: "가격 기준",
+    percentMove: "변동률(%)",
+    percentPlaceholder: "변동률 %",
+    valuePlaceholder: "기준 값",
+    repeat: "반복",
+    once: "1회",
+    add: "추가",
+    invalid: "알림 조건 값을 확인해 주세요.",
+    disable: "끄기",
+    enable: "켜기",
+    remove: "삭제",
+    history: "알림 기록",
+    clear: "지우기",
+    metrics: byId(ALERT_METRICS, (item) => ({ label: item.label, unit: item.unit })),
+    conditions: ALERT_CONDITION_LABELS,
+    describeMove: (metric: string, value: number, condition: string) => `${metric} ${value}% 변동 ${condition}`,
+    describeThreshold: (metric: string, value: string, unit: string, condition: string) =>
+      `${metric} ${value} ${unit} ${condition}`,
+    fired: (rule: string, value: string) => `${rule}: 현재 ${value}`,
+    firedMove: (rule: string, move: string, value: string) => `${rule}: ${move}% (현재 ${value})`,
+    test: (message: string) => `[테스트] ${message}`,
+  },
+  analytics: {
+    title: "위험·수익 분석",
+    metric: "지표",
+    krw: "원화 (1g)",
+    usd: "달러 (1oz)",
+    annualizedReturn: "연환산 수익률",
+    annualizedVolatility: "연환산 변동성",
+    sharpe: "수익/위험 비율",
+    maxDrawdown: "최대 낙폭",
+    drawdownSpan: (peak: string, trough: string) => `${peak} → ${trough}`,
+    recovered: (date: string) => `${date} 회복`,
+    notRecovered: "미회복",
+    best: { day: "최고 일간", week: "최고 주간", month: "최고 월간" },
+    worst: { day: "최저 일간", week: "최저 주간", month: "최저 월간" },
+    heatmap: "월별 수익률",
+    heatmapBasis: "월별 수익률 기준 통화",
+    year: "연도",
+    total: "연간",
+    months: ["1월", "2월", "3월", "4월", "5월", "6월", "7월", "8월", "9월", "10월", "11월", "12월"],
+    notEnoughData: "분석하기에는 기간 데이터가 부족합니다.",
+    krwBasis: "원화는 국제 시세 환산 기준입니다.",
+    sharpeNote: "수익/위험 비율은 무위험 수익률을 빼지 않은 연환산 수익률 ÷ 변동성입니다.",
+  },
+  offline: {
+    showingFrom: (time: string) => `오프라인 – ${time} 기준 데이터를 표시하고 있습니다`,
+    noData: "오프라인 – 저장된 데이터가 없습니다",
+  },
+  footer: {
+    defaultSource: "Domestic: 금 99.99_1kg 금현물 (KRX, 1g 환산). Global: Yahoo Finance (GC=F, KRW=X).",
+    mobile: "모바일 최적화 UI",
+    status: "데이터 소스 상태",
+  },
+};
+
+export type Messages = typeof ko;
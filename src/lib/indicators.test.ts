@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { bollinger, crossovers, ema, rsi, sma } from "./indicators";
+
+describe("sma", () => {
+  it("averages the last period values once enough are in", () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it("restarts after a gap", () => {
+    expect(sma([1, 2, null, 3, 4, 5], 2)).toEqual([null, 1.5, null, null, 3.5, 4.5]);
+  });
+
+  it("rejects a period that is not a positive integer", () => {
+    expect(() => sma([1, 2], 0)).toThrow("Indicator period must be a positive integer, got 0");
+  });
+});
+
+describe("ema", () => {
+  it("seeds with the SMA of the first period values", () => {
+    expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it("carries the average across a gap", () => {
+    expect(ema([1, 2, 3, null, 5], 3)).toEqual([null, null, 2, null, 3.5]);
+  });
+});
+
+describe("bollinger", () => {
+  it("places the bands width population standard deviations around the SMA", () => {
+    const bands = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+
+    expect(bands.middle[7]).toBe(5);
+    expect(bands.upper[7]).toBe(9);
+    expect(bands.lower[7]).toBe(1);
+    expect(bands.upper[6]).toBeNull();
+  });
+});
+
+describe("rsi", () => {
+  it("smooths gains and losses the Wilder way", () => {
+    expect(rsi([1, 2, 1, 2], 2)).toEqual([null, null, 50, 75]);
+  });
+
+  it("reads 100 on only gains, 0 on only losses and 50 when flat", () => {
+    expect(rsi([1, 2, 3, 4, 5], 3)).toEqual([null, null, null, 100, 100]);
+    expect(rsi([5, 4, 3, 2, 1], 3)).toEqual([null, null, null, 0, 0]);
+    expect(rsi([3, 3, 3, 3, 3], 3)).toEqual([null, null, null, 50, 50]);
+  });
+
+  it("measures changes across gaps", () => {
+    expect(rsi([1, null, 2, 3], 2)).toEqual([null, null, null, 100]);
+  });
+});
+
+describe("crossovers", () => {
+  it("reports golden and dead crosses", () => {
+    expect(crossovers([1, 2, 3, 2, 1], [2, 2, 2, 2, 2])).toEqual([
+      { index: 2, direction: "up" },
+      { index: 4, direction: "down" },
+    ]);
+  });
+
+  it("does not count touching as a cross", () => {
+    expect(crossovers([1, 2, 1], [2, 2, 2])).toEqual([]);
+  });
+
+  it("compares across gaps", () => {
+    expect(crossovers([1, null, 3], [2, 2, 2])).toEqual([{ index: 2, direction: "up" }]);
+  });
+});
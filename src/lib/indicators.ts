@@ -0,0 +1,180 @@
+// Indicators over a price series that may have gaps (null). Every function returns an array
+// aligned index-for-index with its input, with null wherever the indicator is not yet defined.
+
+export type Series = Array<number | null>;
+
+export type BollingerBands = {
+  middle: Series;
+  upper: Series;
+  lower: Series;
+};
+
+export type CrossDirection = "up" | "down";
+
+export type Crossover = {
+  index: number;
+  // "up": the fast series crossed above the slow one (a golden cross); "down": below it.
+  direction: CrossDirection;
+};
+
+function assertPeriod(period: number) {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error(`Indicator period must be a positive integer, got ${period}`);
+  }
+}
+
+// Mean of the last `period` points; a gap inside the window leaves the average undefined there.
+export function sma(values: Series, period: number): Series {
+  assertPeriod(period);
+  const result: Series = [];
+  let sum = 0;
+  let run = 0;
+
+  values.forEach((value, idx) => {
+    if (value === null) {
+      sum = 0;
+      run = 0;
+      result.push(null);
+      return;
+    }
+
+    sum += value;
+    run += 1;
+    if (run > period) {
+      sum -= values[idx - period] as number;
+      run = period;
+    }
+    result.push(run === period ? sum / period : null);
+  });
+
+  return result;
+}
+
+// Seeded with the SMA of the first `period` values; gaps are skipped and the average carries across them.
+export function ema(values: Series, period: number): Series {
+  assertPeriod(period);
+  const alpha = 2 / (period + 1);
+  const result: Series = [];
+  const seed: number[] = [];
+  let current: number | null = null;
+
+  for (const value of values) {
+    if (value === null) {
+      result.push(null);
+      continue;
+    }
+
+    if (current === null) {
+      seed.push(value);
+      if (seed.length === period) {
+        current = seed.reduce((sum, item) => sum + item, 0) / period;
+      }
+      result.push(current);
+      continue;
+    }
+
+    current = value * alpha + current * (1 - alpha);
+    result.push(current);
+  }
+
+  return result;
+}
+
+// Middle band is the SMA; the outer bands sit `width` population standard deviations away.
+export function bollinger(values: Series, period = 20, width = 2): BollingerBands {
+  const middle = sma(values, period);
+  const upper: Series = [];
+  const lower: Series = [];
+
+  middle.forEach((mean, idx) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+
+    const window = values.slice(idx - period + 1, idx + 1) as number[];
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    const offset = Math.sqrt(variance) * width;
+    upper.push(mean + offset);
+    lower.push(mean - offset);
+  });
+
+  return { middle, upper, lower };
+}
+
+// Wilder's RSI. Gaps are skipped: the change is measured between consecutive present values.
+export function rsi(values: Series, period = 14): Series {
+  assertPeriod(period);
+  const result: Series = [];
+  let previous: number | null = null;
+  let gains = 0;
+  let losses = 0;
+  let changes = 0;
+  let averageGain = 0;
+  let averageLoss = 0;
+
+  for (const value of values) {
+    if (value === null) {
+      result.push(null);
+      continue;
+    }
+    if (previous === null) {
+      previous = value;
+      result.push(null);
+      continue;
+    }
+
+    const change = value - previous;
+    previous = value;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    changes += 1;
+
+    if (changes < period) {
+      gains += gain;
+      losses += loss;
+      result.push(null);
+      continue;
+    }
+
+    if (changes === period) {
+      averageGain = (gains + gain) / period;
+      averageLoss = (losses + loss) / period;
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+
+    if (averageLoss === 0) {
+      result.push(averageGain === 0 ? 50 : 100);
+    } else {
+      result.push(100 - 100 / (1 + averageGain / averageLoss));
+    }
+  }
+
+  return result;
+}
+
+// Points where `fast` moves from one side of `slow` to the other. Touching without crossing is not a cross.
+export function crossovers(fast: Series, slow: Series): Crossover[] {
+  const result: Crossover[] = [];
+  let side = 0;
+
+  const length = Math.min(fast.length, slow.length);
+  for (let idx = 0; idx < length; idx += 1) {
+    const a = fast[idx];
+    const b = slow[idx];
+    if (a === null || b === null || a === b) {
+      continue;
+    }
+
+    const next = a > b ? 1 : -1;
+    if (side !== 0 && next !== side) {
+      result.push({ index: idx, direction: next > 0 ? "up" : "down" });
+    }
+    side = next;
+  }
+
+  return result;
+}
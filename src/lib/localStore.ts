@@ -0,0 +1,73 @@
+export type LocalStore<T> = {
+  get: () => T;
+  getServerSnapshot: () => T;
+  set: (next: T | ((current: T) => T)) => void;
+  subscribe: (listener: () => void) => () => void;
+};
+
+// A localStorage key shaped for useSyncExternalStore: snapshots stay referentially stable
+// until the stored JSON changes, and other tabs' writes are picked up via the storage event.
+export function createLocalStore<T>(key: string, fallback: T, parse: (raw: unknown) => T | null): LocalStore<T> {
+  const listeners = new Set<() => void>();
+  let cache: { raw: string | null; value: T } | null = null;
+
+  function readRaw(): string | null {
+    try {
+      return window.localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  }
+
+  function get(): T {
+    if (typeof window === "undefined") {
+      return fallback;
+    }
+
+    const raw = readRaw();
+    if (cache && cache.raw === raw) {
+      return cache.value;
+    }
+
+    let value = fallback;
+    if (raw !== null) {
+      try {
+        value = parse(JSON.parse(raw)) ?? fallback;
+      } catch {
+        value = fallback;
+      }
+    }
+
+    cache = { raw, value };
+    return value;
+  }
+
+  function set(next: T | ((current: T) => T)) {
+    const value = typeof next === "function" ? (next as (current: T) => T)(get()) : next;
+    const raw = JSON.stringify(value);
+    try {
+      window.localStorage.setItem(key, raw);
+    } catch {
+      // Storage full or disabled: keep the value for this session only.
+    }
+    cache = { raw: readRaw(), value };
+    listeners.forEach((listener) => listener());
+  }
+
+  function subscribe(listener: () => void) {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === key) {
+        listener();
+      }
+    };
+
+    listeners.add(listener);
+    window.addEventListener("storage", onStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener("storage", onStorage);
+    };
+  }
+
+  return { get, getServerSnapshot: () => fallback, set, subscribe };
+}
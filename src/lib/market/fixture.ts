@@ -0,0 +1,85 @@
+import { HISTORY_INTERVALS, parseInterval } from "@/lib/historyWindow";
+import fixtureQuotes from "./fixtures/quotes.json";
+import type { HistoryRequest, Instrument, MarketDataProvider, Quote, SeriesPoint } from "./types";
+
+type FixtureQuote = {
+  price: number;
+  previousClose: number;
+  asOf: string;
+};
+
+const QUOTES: Partial<Record<Instrument, FixtureQuote>> = fixtureQuotes;
+
+// Each instrument gets its own phase so the offline chart lines do not overlap.
+const PHASES: Record<Instrument, number> = {
+  gold: 0,
+  silver: 2.3,
+  platinum: 3.1,
+  palladium: 4.4,
+  usdkrw: 1.7,
+  usdjpy: 2.9,
+  usdcny: 0.9,
+  usdeur: 3.6,
+  "krx-gold": 0.4,
+  kospi: 5.2,
+  sp500: 1.2,
+  btcusd: 2.6,
+};
+
+function toFixtureQuote(instrument: Instrument): FixtureQuote {
+  const quote = QUOTES[instrument];
+  if (!quote) {
+    throw new Error(`No fixture quote for ${instrument}`);
+  }
+  return quote;
+}
+
+const KRX_CLOSE_OFFSET_SECONDS = 6.5 * 3_600;
+
+// Deterministic wave in days since epoch, anchored so the newest point equals the fixture quote.
+function wave(instrument: Instrument, ts: number): number {
+  const days = ts / 86_400;
+  const phase = PHASES[instrument];
+  return 1 + 0.06 * Math.sin(days / 90 + phase) + 0.015 * Math.sin(days / 7 + phase * 2) + days / 200_000;
+}
+
+function getStep(instrument: Instrument, interval: string): number {
+  // KRX only ever publishes daily closes, whatever interval the caller asked for.
+  if (instrument === "krx-gold") {
+    return 86_400;
+  }
+  const known = parseInterval(interval);
+  return known ? HISTORY_INTERVALS[known].seconds : 86_400;
+}
+
+function buildSeries(instrument: Instrument, { interval, sinceTs, untilTs }: HistoryRequest): SeriesPoint[] {
+  const { price } = toFixtureQuote(instrument);
+  const step = getStep(instrument, interval);
+  // Like Naver's, fixture KRX closes are stamped at the 15:30 KST (06:30 UTC) session close.
+  const offset = instrument === "krx-gold" ? KRX_CLOSE_OFFSET_SECONDS : 0;
+  const nowTs = Math.floor((Date.now() / 1000 - offset) / step) * step + offset;
+  const anchor = wave(instrument, nowTs);
+  const points: SeriesPoint[] = [];
+
+  for (let ts = Math.min(nowTs, Math.floor((untilTs - offset) / step) * step + offset); ts >= sinceTs; ts -= step) {
+    points.push({ ts, close: (price * wave(instrument, ts)) / anchor });
+  }
+
+  return points.reverse();
+}
+
+export const fixtureProvider: MarketDataProvider = {
+  id: "fixture",
+  supports: (instrument) => Object.hasOwn(QUOTES, instrument),
+  label: (instrument) => `Local fixture (${instrument})`,
+  getQuote: async (instrument): Promise<Quote> => {
+    const { price, previousClose, asOf } = toFixtureQuote(instrument);
+    return {
+      price,
+      previousClose,
+      changePercent: ((price - previousClose) / previousClose) * 100,
+      asOf,
+    };
+  },
+  getHistory: async (instrument, request) => buildSeries(instrument, request),
+};
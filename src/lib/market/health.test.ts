@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { clearUpstreamHealth } from "@/test/upstream";
+import { getHealthReport, trackFetch, trackParse } from "./health";
+
+function getUpstream(name: string) {
+  const report = getHealthReport().upstreams.find((item) => item.upstream === name);
+  if (!report) {
+    throw new Error(`No report for ${name}`);
+  }
+  return report;
+}
+
+async function call(name: string, status: number, parse: () => unknown = () => null) {
+  const response = await trackFetch(name, async () => new Response("", { status }));
+  if (response.ok) {
+    trackParse(name, parse);
+  }
+}
+
+beforeEach(() => {
+  clearUpstreamHealth();
+});
+
+describe("upstream health", () => {
+  it("reports a fetched and parsed call as healthy", async () => {
+    await call("test:ok", 200);
+    const report = getUpstream("test:ok");
+
+    expect(report).toMatchObject({ status: "ok", calls: 1, failures: 0, lastFailureAt: null });
+    expect(report.lastSuccessAt).not.toBeNull();
+    expect(report.latencyMs?.samples).toBe(1);
+    expect(report.parse.status).toBe("ok");
+    expect(getHealthReport().status).toBe("ok");
+  });
+
+  it("degrades on a failure and goes down after three in a row", async () => {
+    await call("test:flaky", 503);
+    expect(getUpstream("test:flaky")).toMatchObject({ status: "degraded", consecutiveFailures: 1 });
+    expect(getHealthReport().status).toBe("degraded");
+
+    await call("test:flaky", 503);
+    await call("test:flaky", 503);
+    expect(getUpstream("test:flaky")).toMatchObject({ status: "down", failures: 3 });
+    expect(getUpstream("test:flaky").recentErrors[0].message).toBe("HTTP 503");
+
+    await call("test:flaky", 200);
+    expect(getUpstream("test:flaky")).toMatchObject({ status: "ok", consecutiveFailures: 0, failures: 3 });
+  });
+
+  it("records parse failures separately from fetch failures", async () => {
+    await expect(
+      call("test:layout", 200, () => {
+        throw new Error("Failed to parse Naver date: span.date not found");
+      }),
+    ).rejects.toThrow("span.date");
+
+    const report = getUpstream("test:layout");
+    expect(report.status).toBe("degraded");
+    expect(report.parse).toMatchObject({ status: "failed", error: "Failed to parse Naver date: span.date not found" });
+    expect(report.latencyMs?.samples).toBe(1);
+  });
+
+  it("records network errors without a latency sample", async () => {
+    await expect(
+      trackFetch("test:offline", async () => {
+        throw new Error("fetch failed");
+      }),
+    ).rejects.toThrow("fetch failed");
+
+    const report = getUpstream("test:offline");
+    expect(report.latencyMs).toBeNull();
+    expect(report.recentErrors.map((error) => error.message)).toEqual(["fetch failed"]);
+  });
+
+  it("keeps only the ten most recent errors, newest first", async () => {
+    for (let idx = 0; idx < 12; idx += 1) {
+      await call("test:noisy", 500 + idx);
+    }
+
+    const errors = getUpstream("test:noisy").recentErrors;
+    expect(errors).toHaveLength(10);
+    expect(errors[0].message).toBe("HTTP 511");
+  });
+});
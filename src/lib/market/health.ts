@@ -0,0 +1,181 @@
+// Per-upstream call statistics, recorded by the fetch helpers and parsers and served by /api/health.
+// Upstreams are named "<provider>:<what>", e.g. "yahoo:GC=F" or "naver:krx-gold".
+
+const LATENCY_SAMPLES = 200;
+const ERROR_SAMPLES = 10;
+// Consecutive failures before an upstream counts as down rather than degraded.
+const DOWN_AFTER_FAILURES = 3;
+
+export type UpstreamStatus = "ok" | "degraded" | "down";
+
+export type ParseStatus = "ok" | "failed" | "unknown";
+
+type UpstreamError = {
+  at: string;
+  message: string;
+};
+
+type UpstreamState = {
+  calls: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  latenciesMs: number[];
+  errors: UpstreamError[];
+  parse: { status: ParseStatus; at: number | null; error: string | null };
+};
+
+export type LatencySummary = {
+  samples: number;
+  p50: number;
+  p90: number;
+  p99: number;
+};
+
+export type UpstreamReport = {
+  upstream: string;
+  status: UpstreamStatus;
+  calls: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  latencyMs: LatencySummary | null;
+  parse: { status: ParseStatus; at: string | null; error: string | null };
+  recentErrors: UpstreamError[];
+};
+
+export type HealthReport = {
+  status: "ok" | "degraded";
+  generatedAt: string;
+  upstreams: UpstreamReport[];
+};
+
+const globalForHealth = globalThis as typeof globalThis & { __upstreamHealth?: Map<string, UpstreamState> };
+
+const upstreams: Map<string, UpstreamState> = (globalForHealth.__upstreamHealth ??= new Map());
+
+function getState(upstream: string): UpstreamState {
+  let state = upstreams.get(upstream);
+  if (!state) {
+    state = {
+      calls: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      latenciesMs: [],
+      errors: [],
+      parse: { status: "unknown", at: null, error: null },
+    };
+    upstreams.set(upstream, state);
+  }
+  return state;
+}
+
+function recordFailure(state: UpstreamState, message: string) {
+  const now = Date.now();
+  state.failures += 1;
+  state.consecutiveFailures += 1;
+  state.lastFailureAt = now;
+  state.errors = [{ at: new Date(now).toISOString(), message }, ...state.errors].slice(0, ERROR_SAMPLES);
+}
+
+function toMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+// Times one request up to its response headers. Network errors and non-2xx answers count as failures;
+// the caller still decides how to surface them. Success is only recorded once trackParse accepts the payload.
+export async function trackFetch(upstream: string, request: () => Promise<Response>): Promise<Response> {
+  const state = getState(upstream);
+  const startedAt = performance.now();
+  state.calls += 1;
+
+  let response: Response;
+  try {
+    response = await request();
+  } catch (error) {
+    recordFailure(state, toMessage(error));
+    throw error;
+  }
+
+  state.latenciesMs = [...state.latenciesMs, performance.now() - startedAt].slice(-LATENCY_SAMPLES);
+  if (!response.ok) {
+    recordFailure(state, `HTTP ${response.status}`);
+  }
+  return response;
+}
+
+// Records whether a fetched payload still parses; a layout change shows up here while fetches keep succeeding.
+export function trackParse<T>(upstream: string, parse: () => T): T {
+  const state = getState(upstream);
+  try {
+    const result = parse();
+    const now = Date.now();
+    state.parse = { status: "ok", at: now, error: null };
+    state.lastSuccessAt = now;
+    state.consecutiveFailures = 0;
+    return result;
+  } catch (error) {
+    const message = toMessage(error);
+    state.parse = { status: "failed", at: Date.now(), error: message };
+    recordFailure(state, message);
+    throw error;
+  }
+}
+
+// Nearest-rank percentile over the retained samples.
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.max(Math.ceil((p / 100) * sorted.length), 1);
+  return Math.round(sorted[rank - 1]);
+}
+
+function summarizeLatency(samples: number[]): LatencySummary | null {
+  if (samples.length === 0) {
+    return null;
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    samples: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+  };
+}
+
+function toStatus(state: UpstreamState): UpstreamStatus {
+  if (state.consecutiveFailures >= DOWN_AFTER_FAILURES) {
+    return "down";
+  }
+  return state.consecutiveFailures > 0 || state.parse.status === "failed" ? "degraded" : "ok";
+}
+
+function toIso(ms: number | null): string | null {
+  return ms === null ? null : new Date(ms).toISOString();
+}
+
+export function getHealthReport(): HealthReport {
+  const reports = [...upstreams.entries()]
+    .map(([upstream, state]): UpstreamReport => ({
+      upstream,
+      status: toStatus(state),
+      calls: state.calls,
+      failures: state.failures,
+      consecutiveFailures: state.consecutiveFailures,
+      lastSuccessAt: toIso(state.lastSuccessAt),
+      lastFailureAt: toIso(state.lastFailureAt),
+      latencyMs: summarizeLatency(state.latenciesMs),
+      parse: { ...state.parse, at: toIso(state.parse.at) },
+      recentErrors: state.errors,
+    }))
+    .sort((a, b) => a.upstream.localeCompare(b.upstream));
+
+  // Providers back each other up, so one upstream down only degrades the service as a whole.
+  return {
+    status: reports.every((report) => report.status === "ok") ? "ok" : "degraded",
+    generatedAt: new Date().toISOString(),
+    upstreams: reports,
+  };
+}
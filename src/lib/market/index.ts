@@ -0,0 +1,67 @@
+import { fixtureProvider } from "./fixture";
+import { naverProvider } from "./naver";
+import type { Capability, HistoryRequest, Instrument, MarketDataProvider, Quote, SeriesPoint, Sourced } from "./types";
+import { yahooProvider } from "./yahoo";
+
+export type {
+  BenchmarkInstrument,
+  FxInstrument,
+  HistoryRequest,
+  Instrument,
+  MarketDataProvider,
+  Quote,
+  SeriesPoint,
+  Sourced,
+} from "./types";
+
+// Ordered by preference; later providers are only tried when earlier ones fail.
+const LIVE_CHAINS: Record<Instrument, MarketDataProvider[]> = {
+  gold: [yahooProvider, naverProvider],
+  silver: [yahooProvider],
+  platinum: [yahooProvider],
+  palladium: [yahooProvider],
+  usdkrw: [yahooProvider, naverProvider],
+  usdjpy: [yahooProvider],
+  usdcny: [yahooProvider],
+  usdeur: [yahooProvider],
+  "krx-gold": [naverProvider],
+  kospi: [yahooProvider],
+  sp500: [yahooProvider],
+  btcusd: [yahooProvider],
+};
+
+// MARKET_DATA_PROVIDER=fixture serves everything from local fixtures, for offline development and tests.
+function getChain(instrument: Instrument, capability: Capability): MarketDataProvider[] {
+  const chain = process.env.MARKET_DATA_PROVIDER === "fixture" ? [fixtureProvider] : LIVE_CHAINS[instrument];
+  return chain.filter((provider) => provider.supports(instrument, capability));
+}
+
+async function runChain<T>(
+  instrument: Instrument,
+  capability: Capability,
+  call: (provider: MarketDataProvider) => Promise<T>,
+): Promise<Sourced<T>> {
+  const chain = getChain(instrument, capability);
+  const errors: string[] = [];
+
+  for (const provider of chain) {
+    try {
+      return { data: await call(provider), source: provider.label(instrument) };
+    } catch (error) {
+      errors.push(`${provider.id}: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
+
+  if (errors.length === 0) {
+    throw new Error(`No provider offers ${capability} for ${instrument}`);
+  }
+  throw new Error(`All providers failed for ${instrument} ${capability} (${errors.join("; ")})`);
+}
+
+export function getQuote(instrument: Instrument): Promise<Sourced<Quote>> {
+  return runChain(instrument, "quote", (provider) => provider.getQuote(instrument));
+}
+
+export function getHistory(instrument: Instrument, request: HistoryRequest): Promise<Sourced<SeriesPoint[]>> {
+  return runChain(instrument, "history", (provider) => provider.getHistory(instrument, request));
+}
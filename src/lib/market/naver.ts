@@ -0,0 +1,134 @@
+import { trackFetch, trackParse } from "./health";
+import { parseDailyPage, parseDetailPage, type NaverParseOptions } from "./naverParser";
+import type { HistoryRequest, Instrument, MarketDataProvider, SeriesPoint } from "./types";
+
+const NAVER_MARKETINDEX_URL = "https://finance.naver.com/marketindex";
+const DAILY_PAGE_BATCH = 10;
+const DAILY_MAX_PAGES = 400;
+// Each page holds 10 trading days, roughly two calendar weeks.
+const DAILY_DAYS_PER_PAGE = 14;
+const DAILY_UPSTREAM = "naver:krx-gold-daily";
+
+// KRW per gram; wide enough for decades of prices, narrow enough to catch a kg quote or a stray number.
+const KRX_GOLD_PARSE: NaverParseOptions = { perGram: true, range: [10_000, 1_000_000] };
+
+type DetailPage = {
+  path: string;
+  label: string;
+  parse: NaverParseOptions;
+};
+
+const DETAIL_PAGES: Partial<Record<Instrument, DetailPage>> = {
+  "krx-gold": {
+    path: "goldDetail.naver",
+    label: "Naver Finance 금 99.99_1kg 금현물 (KRX, 1g 환산)",
+    parse: KRX_GOLD_PARSE,
+  },
+  usdkrw: {
+    path: "exchangeDetail.naver?marketindexCd=FX_USDKRW",
+    label: "Naver Finance 미국 USD 환율",
+    parse: { perGram: false, range: [500, 3_000] },
+  },
+  gold: {
+    path: "worldGoldDetail.naver?marketindexCd=CMDT_GC&fdtc=2",
+    label: "Naver Finance 국제 금 (COMEX)",
+    parse: { perGram: false, range: [200, 20_000] },
+  },
+};
+
+async function fetchHtml(url: string, what: string, upstream: string): Promise<string> {
+  const response = await trackFetch(upstream, () =>
+    fetch(url, {
+      cache: "no-store",
+      headers: {
+        "User-Agent": "Mozilla/5.0",
+        Accept: "text/html,application/xhtml+xml",
+      },
+    }),
+  );
+
+  if (!response.ok) {
+    throw new Error(`Naver ${what} request failed (${response.status})`);
+  }
+
+  return response.text();
+}
+
+async function fetchDailyPage(page: number): Promise<SeriesPoint[]> {
+  const query = new URLSearchParams({ page: String(page) }).toString();
+  const html = await fetchHtml(
+    `${NAVER_MARKETINDEX_URL}/goldDailyQuote.naver?${query}`,
+    `gold daily (page ${page})`,
+    DAILY_UPSTREAM,
+  );
+  return trackParse(DAILY_UPSTREAM, () => parseDailyPage(html, KRX_GOLD_PARSE));
+}
+
+function toSortedSeries(byTs: Map<number, number>, untilTs: number): SeriesPoint[] {
+  return [...byTs.entries()]
+    .filter(([ts]) => ts <= untilTs)
+    .map(([ts, close]) => ({ ts, close }))
+    .sort((a, b) => a.ts - b.ts);
+}
+
+// Pages run newest first, so an explicit window still pages down from today and drops the days after untilTs.
+async function fetchDailyHistory({ sinceTs, untilTs }: HistoryRequest): Promise<SeriesPoint[]> {
+  const byTs = new Map<number, number>();
+  let previousFirstTs: number | null = null;
+
+  // Never page further back than the window needs (plus slack for long holidays), and avoid a full
+  // batch for short ranges.
+  const spanDays = (Date.now() / 1000 - sinceTs) / 86_400;
+  const maxPages = Math.min(DAILY_MAX_PAGES, Math.ceil(spanDays / DAILY_DAYS_PER_PAGE) + 2);
+  const batchSize = Math.min(DAILY_PAGE_BATCH, maxPages);
+
+  for (let start = 1; start <= maxPages; start += batchSize) {
+    const pageNumbers = Array.from({ length: Math.min(batchSize, maxPages - start + 1) }, (_, idx) => start + idx);
+    const pages = await Promise.all(pageNumbers.map((page) => fetchDailyPage(page)));
+
+    for (const page of pages) {
+      // Naver keeps serving the last page for out-of-range page numbers.
+      if (page.length === 0 || page[0].ts === previousFirstTs) {
+        return toSortedSeries(byTs, untilTs);
+      }
+      previousFirstTs = page[0].ts;
+
+      for (const point of page) {
+        byTs.set(point.ts, point.close);
+      }
+
+      if (page[page.length - 1].ts <= sinceTs) {
+        return toSortedSeries(byTs, untilTs);
+      }
+    }
+  }
+
+  return toSortedSeries(byTs, untilTs);
+}
+
+function toDetailPage(instrument: Instrument): DetailPage {
+  const page = DETAIL_PAGES[instrument];
+  if (!page) {
+    throw new Error(`Naver has no page for ${instrument}`);
+  }
+  return page;
+}
+
+export const naverProvider: MarketDataProvider = {
+  id: "naver",
+  supports: (instrument, capability) =>
+    capability === "quote" ? Object.hasOwn(DETAIL_PAGES, instrument) : instrument === "krx-gold",
+  label: (instrument) => DETAIL_PAGES[instrument]?.label ?? `Naver Finance (${instrument})`,
+  getQuote: async (instrument) => {
+    const page = toDetailPage(instrument);
+    const upstream = `naver:${instrument}`;
+    const html = await fetchHtml(`${NAVER_MARKETINDEX_URL}/${page.path}`, `${instrument} detail`, upstream);
+    return trackParse(upstream, () => parseDetailPage(html, page.parse));
+  },
+  getHistory: async (instrument, request) => {
+    if (instrument !== "krx-gold") {
+      throw new Error(`Naver history is only available for krx-gold, not ${instrument}`);
+    }
+    return fetchDailyHistory(request);
+  },
+};
@@ -0,0 +1,166 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import {
+  NaverParseError,
+  parseDailyPage,
+  parseDetailPage,
+  parseNumber,
+  stripTags,
+  toIsoFromKst,
+  type NaverParseOptions,
+} from "./naverParser";
+
+const KRX_GOLD: NaverParseOptions = { perGram: true, range: [10_000, 1_000_000] };
+const USDKRW: NaverParseOptions = { perGram: false, range: [500, 3_000] };
+const COMEX_GOLD: NaverParseOptions = { perGram: false, range: [200, 20_000] };
+
+function loadPage(name: string): string {
+  return readFileSync(new URL(`./fixtures/naver/${name}`, import.meta.url), "utf8");
+}
+
+function expectParseError(run: () => unknown, field: NaverParseError["field"]) {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(NaverParseError);
+    expect((error as NaverParseError).field).toBe(field);
+    return;
+  }
+  throw new Error(`Expected a NaverParseError on ${field}`);
+}
+
+// Swaps one fragment of a saved page, so each broken variant differs from a real page in one place only.
+function editPage(name: string, from: string | RegExp, to: string): string {
+  const html = loadPage(name);
+  const edited = html.replace(from, to);
+  expect(edited).not.toBe(html);
+  return edited;
+}
+
+describe("helpers", () => {
+  it("converts KST timestamps with and without seconds", () => {
+    expect(toIsoFromKst("2024.05.17 15:30")).toBe("2024-05-17T15:30:00+09:00");
+    expect(toIsoFromKst("2024-05-17 05:59:58")).toBe("2024-05-17T05:59:58+09:00");
+    expect(toIsoFromKst("2024.05.17")).toBeNull();
+    expect(toIsoFromKst(undefined)).toBeNull();
+  });
+
+  it("strips tags and parses grouped numbers", () => {
+    expect(stripTags("<em>1,234<span>.5</span></em>&nbsp; 원")).toBe("1,234.5 원");
+    expect(parseNumber("1,234.50")).toBe(1234.5);
+    expect(parseNumber("-")).toBeNull();
+  });
+});
+
+describe("parseDetailPage", () => {
+  it("parses a rising KRX gold page", () => {
+    const quote = parseDetailPage(loadPage("gold-detail-up.html"), KRX_GOLD);
+    expect(quote.price).toBe(148_520);
+    expect(quote.previousClose).toBe(147_270);
+    expect(quote.changePercent).toBe(0.85);
+    expect(quote.asOf).toBe("2024-05-17T15:30:00+09:00");
+  });
+
+  it("parses a falling page laid out as one span per digit", () => {
+    const quote = parseDetailPage(loadPage("gold-detail-down.html"), KRX_GOLD);
+    expect(quote.price).toBe(147_270);
+    expect(quote.previousClose).toBe(148_250);
+    expect(quote.changePercent).toBe(-0.66);
+  });
+
+  it("parses an unchanged page", () => {
+    const quote = parseDetailPage(loadPage("gold-detail-unchanged.html"), KRX_GOLD);
+    expect(quote.price).toBe(147_270);
+    expect(quote.previousClose).toBe(147_270);
+    expect(quote.changePercent).toBe(0);
+  });
+
+  it("converts a page quoted in 원/kg to per gram", () => {
+    const quote = parseDetailPage(loadPage("gold-detail-kg.html"), KRX_GOLD);
+    expect(quote.price).toBe(148_520);
+    expect(quote.previousClose).toBe(147_270);
+  });
+
+  it("falls back to the magnitude when the unit label is missing", () => {
+    const html = editPage("gold-detail-kg.html", '<span class="unit">(원/kg)</span>', "");
+    expect(parseDetailPage(html, KRX_GOLD).price).toBe(148_520);
+  });
+
+  it("parses the exchange rate page", () => {
+    const quote = parseDetailPage(loadPage("exchange-usdkrw.html"), USDKRW);
+    expect(quote.price).toBe(1_384.5);
+    expect(quote.previousClose).toBe(1_387);
+    expect(quote.changePercent).toBe(-0.18);
+    expect(quote.asOf).toBe("2024-05-17T16:00:00+09:00");
+  });
+
+  it("reads the direction from the colour class when the arrow icon is missing", () => {
+    const quote = parseDetailPage(loadPage("world-gold.html"), COMEX_GOLD);
+    expect(quote.price).toBe(2_345.6);
+    expect(quote.previousClose).toBeCloseTo(2_333.2, 6);
+    expect(quote.changePercent).toBe(0.53);
+    expect(quote.asOf).toBe("2024-05-17T05:59:58+09:00");
+  });
+
+  it("rejects a page without a date", () => {
+    expectParseError(() => parseDetailPage(loadPage("gold-detail-no-date.html"), KRX_GOLD), "date");
+  });
+
+  it("rejects a page without the price block", () => {
+    const html = editPage("gold-detail-up.html", 'class="no_today"', 'class="no_today_v2"');
+    expectParseError(() => parseDetailPage(html, KRX_GOLD), "price");
+  });
+
+  it("rejects an implausible price", () => {
+    expectParseError(() => parseDetailPage(loadPage("gold-detail-up.html"), USDKRW), "price");
+  });
+
+  it("rejects a unit label that contradicts the price", () => {
+    const html = editPage("gold-detail-up.html", "(원/g)", "(원/kg)");
+    expectParseError(() => parseDetailPage(html, KRX_GOLD), "unit");
+  });
+
+  it("rejects a non-zero change without a direction marker", () => {
+    const html = loadPage("gold-detail-up.html").replace(/ico up|ico plus|no_up/g, "ico");
+    expectParseError(() => parseDetailPage(html, KRX_GOLD), "direction");
+  });
+
+  it("rejects a percent that disagrees with the absolute change", () => {
+    const html = editPage("gold-detail-up.html", ">0.85<", ">8.50<");
+    expectParseError(() => parseDetailPage(html, KRX_GOLD), "percent");
+  });
+
+  it("rejects a missing change block", () => {
+    const html = editPage("gold-detail-up.html", 'class="no_exday"', 'class="no_exday_v2"');
+    expectParseError(() => parseDetailPage(html, KRX_GOLD), "change");
+  });
+
+  it("names the failed field in the message", () => {
+    expect(() => parseDetailPage(loadPage("gold-detail-no-date.html"), KRX_GOLD)).toThrow(
+      "Failed to parse Naver date: span.date not found",
+    );
+  });
+});
+
+describe("parseDailyPage", () => {
+  it("stamps each close at its 15:30 KST session close", () => {
+    expect(parseDailyPage(loadPage("gold-daily.html"), KRX_GOLD)).toEqual([
+      { ts: Date.parse("2024-05-20T15:30:00+09:00") / 1000, close: 147_270 },
+      { ts: Date.parse("2024-05-17T15:30:00+09:00") / 1000, close: 148_250 },
+      { ts: Date.parse("2024-05-16T15:30:00+09:00") / 1000, close: 147_270 },
+    ]);
+  });
+
+  it("returns no points past the last page", () => {
+    expect(parseDailyPage(loadPage("gold-daily-empty.html"), KRX_GOLD)).toEqual([]);
+  });
+
+  it("rejects a page without the quote table", () => {
+    expectParseError(() => parseDailyPage("<html><body>점검 중입니다</body></html>", KRX_GOLD), "table");
+  });
+
+  it("rejects an implausible close", () => {
+    const html = editPage("gold-daily.html", "148,250.00", "1.48");
+    expectParseError(() => parseDailyPage(html, KRX_GOLD), "price");
+  });
+});
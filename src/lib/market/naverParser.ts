@@ -0,0 +1,217 @@
+import type { Quote, SeriesPoint } from "./types";
+
+// Which part of a Naver page could not be trusted; surfaced so a layout change points at the broken field.
+export type NaverParseField = "price" | "unit" | "change" | "percent" | "direction" | "date" | "table";
+
+export class NaverParseError extends Error {
+  constructor(
+    readonly field: NaverParseField,
+    detail: string,
+  ) {
+    super(`Failed to parse Naver ${field}: ${detail}`);
+    this.name = "NaverParseError";
+  }
+}
+
+export type NaverParseOptions = {
+  // KRX gold is quoted per gram; pages quoted per kg are converted.
+  perGram: boolean;
+  // Plausible [min, max] of the parsed price (after any kg->g conversion); anything outside is rejected.
+  range: [number, number];
+};
+
+type Direction = "up" | "down" | "unchanged";
+
+// Naver rounds the percent to two decimals, so allow that much slack on top of a relative margin.
+const PERCENT_TOLERANCE = 0.015;
+const PERCENT_RELATIVE_TOLERANCE = 0.02;
+
+export function toIsoFromKst(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const match = value.match(/(\d{4})[.-](\d{2})[.-](\d{2})\s+(\d{2}):(\d{2})(?::(\d{2}))?/);
+  if (!match) {
+    return null;
+  }
+
+  const second = match[6] ?? "00";
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${second}+09:00`;
+}
+
+export function stripTags(input: string): string {
+  return input.replace(/<[^>]*>/g, "").replace(/&nbsp;/g, " ").replace(/\s+/g, " ").trim();
+}
+
+export function parseNumber(input: string): number | null {
+  const normalized = input.replace(/,/g, "").trim();
+  const value = Number.parseFloat(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Digits only: drops the "상승"/"+"/"%" decorations Naver puts inside the same element.
+function parseUnsigned(html: string | undefined): number | null {
+  return html ? parseNumber(stripTags(html).replace(/[^0-9.,]/g, "")) : null;
+}
+
+function inRange(value: number, [min, max]: [number, number]): boolean {
+  return value >= min && value <= max;
+}
+
+type UnitLabel = "kg" | "g" | null;
+
+function detectUnitLabel(html: string): UnitLabel {
+  const unit = stripTags(html).match(/원\s*\/\s*(kg|g)\b/i)?.[1]?.toLowerCase();
+  return unit === "kg" || unit === "g" ? unit : null;
+}
+
+// Returns the divisor that turns a quoted figure into a per-gram price (1 for pages that are not per gram).
+function toUnitDivisor(unit: UnitLabel, rawPrice: number, options: NaverParseOptions): number {
+  if (!options.perGram) {
+    return 1;
+  }
+
+  const perGram = inRange(rawPrice, options.range);
+  const perKg = inRange(rawPrice / 1000, options.range);
+  if (unit === null) {
+    // No unit label: only call it a per-kg quote when that is the reading that lands in range.
+    return !perGram && perKg ? 1000 : 1;
+  }
+  if ((unit === "g" && !perGram && perKg) || (unit === "kg" && !perKg && perGram)) {
+    throw new NaverParseError("unit", `labelled 원/${unit} but ${rawPrice} only fits the other unit`);
+  }
+  return unit === "kg" ? 1000 : 1;
+}
+
+function checkPrice(price: number, options: NaverParseOptions, what: string) {
+  if (!inRange(price, options.range)) {
+    const [min, max] = options.range;
+    throw new NaverParseError("price", `${what} ${price} is outside the plausible range ${min}-${max}`);
+  }
+}
+
+// The sign comes from the arrow icon, or failing that the colour class on the figures.
+function detectDirection(exdayBlock: string): Direction {
+  if (/class="ico\s+up"/.test(exdayBlock) || /class="no_up"/.test(exdayBlock)) {
+    return "up";
+  }
+  if (/class="ico\s+down"/.test(exdayBlock) || /class="no_down"/.test(exdayBlock)) {
+    return "down";
+  }
+  return "unchanged";
+}
+
+export function parseDetailPage(html: string, options: NaverParseOptions): Quote {
+  const todayBlock = html.match(/<p class="no_today">([\s\S]*?)<\/p>/)?.[1];
+  if (!todayBlock) {
+    throw new NaverParseError("price", "no_today block not found");
+  }
+
+  const todayEm = todayBlock.match(/<em[^>]*>([\s\S]*?)<\/em>/)?.[1] ?? todayBlock;
+  const rawPrice = parseUnsigned(todayEm);
+  if (rawPrice === null) {
+    throw new NaverParseError("price", "no number in no_today block");
+  }
+
+  const divisor = toUnitDivisor(detectUnitLabel(html), rawPrice, options);
+  const price = rawPrice / divisor;
+  checkPrice(price, options, "price");
+
+  const exdayBlock = html.match(/<p class="no_exday">([\s\S]*?)<\/p>/)?.[1];
+  if (!exdayBlock) {
+    throw new NaverParseError("change", "no_exday block not found");
+  }
+
+  const emMatches = [...exdayBlock.matchAll(/<em[^>]*>([\s\S]*?)<\/em>/g)];
+  const rawChange = parseUnsigned(emMatches[0]?.[1]);
+  if (rawChange === null) {
+    throw new NaverParseError("change", "no absolute change in no_exday block");
+  }
+  const rawPercent = parseUnsigned(emMatches[1]?.[1]);
+  if (rawPercent === null) {
+    throw new NaverParseError("percent", "no percent change in no_exday block");
+  }
+
+  const direction = detectDirection(exdayBlock);
+  if (direction === "unchanged" && (rawChange !== 0 || rawPercent !== 0)) {
+    throw new NaverParseError("direction", `no up/down marker for a change of ${rawChange} (${rawPercent}%)`);
+  }
+
+  const sign = direction === "down" ? -1 : 1;
+  const change = rawChange / divisor;
+  const previousClose = price - sign * change;
+  if (!(previousClose > 0)) {
+    throw new NaverParseError("change", `change ${sign * change} implies a previous close of ${previousClose}`);
+  }
+
+  const expectedPercent = (change / previousClose) * 100;
+  const tolerance = Math.max(PERCENT_TOLERANCE, expectedPercent * PERCENT_RELATIVE_TOLERANCE);
+  if (Math.abs(expectedPercent - rawPercent) > tolerance) {
+    throw new NaverParseError(
+      "percent",
+      `${rawPercent}% does not match a change of ${change} from ${previousClose} (${expectedPercent.toFixed(2)}%)`,
+    );
+  }
+
+  const dateHtml = html.match(/<span class="date"[^>]*>([\s\S]*?)<\/span>/)?.[1];
+  const asOf = toIsoFromKst(dateHtml ? stripTags(dateHtml) : undefined);
+  if (!asOf) {
+    throw new NaverParseError("date", dateHtml ? `unrecognised date "${stripTags(dateHtml)}"` : "span.date not found");
+  }
+
+  return {
+    price,
+    previousClose,
+    changePercent: sign * rawPercent,
+    asOf,
+  };
+}
+
+// Daily closes are stamped at the 15:30 KST session close, when they become known, so
+// bars earlier that day keep the previous close instead of looking ahead.
+function toKstSessionClose(value: string): number | null {
+  const match = value.match(/(\d{4})[.-](\d{2})[.-](\d{2})/);
+  if (!match) {
+    return null;
+  }
+
+  const ms = Date.parse(`${match[1]}-${match[2]}-${match[3]}T15:30:00+09:00`);
+  return Number.isFinite(ms) ? Math.floor(ms / 1000) : null;
+}
+
+// An empty table is a real answer (past the last page); a missing one means the layout changed.
+export function parseDailyPage(html: string, options: NaverParseOptions): SeriesPoint[] {
+  const table = html.match(/<table[^>]*>([\s\S]*?)<\/table>/)?.[1];
+  if (table === undefined) {
+    throw new NaverParseError("table", "daily quote table not found");
+  }
+
+  const unit = detectUnitLabel(html);
+  const rows = [...table.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/g)];
+  const points: SeriesPoint[] = [];
+
+  for (const row of rows) {
+    const dateText = row[1].match(/<td class="date">([\s\S]*?)<\/td>/)?.[1];
+    const closeText = row[1].match(/<td class="num">([\s\S]*?)<\/td>/)?.[1];
+    if (!dateText || !closeText) {
+      continue;
+    }
+
+    const ts = toKstSessionClose(stripTags(dateText));
+    if (ts === null) {
+      throw new NaverParseError("date", `unrecognised daily row date "${stripTags(dateText)}"`);
+    }
+
+    const rawClose = parseUnsigned(closeText);
+    if (rawClose === null) {
+      throw new NaverParseError("price", `no close in daily row for ${stripTags(dateText)}`);
+    }
+
+    const close = rawClose / toUnitDivisor(unit, rawClose, options);
+    checkPrice(close, options, `close on ${stripTags(dateText)}`);
+    points.push({ ts, close });
+  }
+
+  return points;
+}
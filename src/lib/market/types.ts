@@ -0,0 +1,45 @@
+import type { Metal } from "@/lib/metals";
+
+// Units of each currency per US dollar.
+export type FxInstrument = "usdkrw" | "usdjpy" | "usdcny" | "usdeur";
+
+// History-only comparison series: the dashboard never quotes them live.
+export type BenchmarkInstrument = "kospi" | "sp500" | "btcusd";
+
+// Instruments are named by what they price, not by any one feed's ticker.
+export type Instrument = Metal | FxInstrument | "krx-gold" | BenchmarkInstrument;
+
+export type Quote = {
+  price: number;
+  previousClose: number | null;
+  changePercent: number | null;
+  asOf: string | null;
+};
+
+export type SeriesPoint = {
+  ts: number;
+  close: number;
+};
+
+// Presets name a Yahoo `range`; explicit windows set it to null and rely on sinceTs/untilTs alone.
+export type HistoryRequest = {
+  range: string | null;
+  interval: string;
+  sinceTs: number;
+  untilTs: number;
+};
+
+export type Capability = "quote" | "history";
+
+export type MarketDataProvider = {
+  id: string;
+  supports: (instrument: Instrument, capability: Capability) => boolean;
+  label: (instrument: Instrument) => string;
+  getQuote: (instrument: Instrument) => Promise<Quote>;
+  getHistory: (instrument: Instrument, request: HistoryRequest) => Promise<SeriesPoint[]>;
+};
+
+export type Sourced<T> = {
+  data: T;
+  source: string;
+};
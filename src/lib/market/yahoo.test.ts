@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+import { mockUpstream, readFixture } from "@/test/upstream";
+import { fetchChart, getLastValidNumber, parseSeries, yahooProvider } from "./yahoo";
+
+describe("getLastValidNumber", () => {
+  it("skips trailing gaps", () => {
+    expect(getLastValidNumber([1, 2, null, null])).toBe(2);
+    expect(getLastValidNumber([1, Number.NaN])).toBe(1);
+  });
+
+  it("returns null when nothing is usable", () => {
+    expect(getLastValidNumber(undefined)).toBeNull();
+    expect(getLastValidNumber([])).toBeNull();
+    expect(getLastValidNumber([null, null])).toBeNull();
+  });
+});
+
+describe("parseSeries", () => {
+  it("drops null closes and sorts by time", () => {
+    const points = parseSeries({
+      timestamp: [300, 100, 200],
+      indicators: { quote: [{ close: [3, 1, null] }] },
+    });
+    expect(points).toEqual([
+      { ts: 100, close: 1 },
+      { ts: 300, close: 3 },
+    ]);
+  });
+
+  it("only pairs timestamps that have a close", () => {
+    expect(parseSeries({ timestamp: [100, 200, 300], indicators: { quote: [{ close: [1, 2] }] } })).toEqual([
+      { ts: 100, close: 1 },
+      { ts: 200, close: 2 },
+    ]);
+    expect(parseSeries({ timestamp: [100], indicators: { quote: [{ close: [1, 2, 3] }] } })).toEqual([
+      { ts: 100, close: 1 },
+    ]);
+  });
+
+  it("returns no points for an empty chart", () => {
+    expect(parseSeries({})).toEqual([]);
+    expect(parseSeries({ timestamp: [100], indicators: { quote: [] } })).toEqual([]);
+  });
+});
+
+describe("fetchChart", () => {
+  it("requests explicit windows by period", async () => {
+    const fetchMock = mockUpstream();
+    await fetchChart("GC=F", { period1: 100, period2: 200 }, "1d");
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(url.pathname).toBe("/v8/finance/chart/GC%3DF");
+    expect(Object.fromEntries(url.searchParams)).toEqual({ period1: "100", period2: "200", interval: "1d" });
+  });
+
+  it("reports upstream errors with the status", async () => {
+    mockUpstream(["GC=F"]);
+    await expect(fetchChart("GC=F", { range: "1d" }, "1m")).rejects.toThrow("Yahoo request failed for GC=F (503)");
+  });
+
+  it("rejects an empty chart result", async () => {
+    vi.stubGlobal("fetch", async () => new Response(readFixture("yahoo/empty.json")));
+    await expect(fetchChart("XX=F", { range: "1d" }, "1m")).rejects.toThrow(
+      "Yahoo returned empty chart result for XX=F",
+    );
+  });
+});
+
+describe("yahooProvider", () => {
+  it("quotes the market price against the previous close", async () => {
+    mockUpstream();
+    const quote = await yahooProvider.getQuote("gold");
+    expect(quote.price).toBe(2_345.6);
+    expect(quote.previousClose).toBe(2_333.2);
+    expect(quote.changePercent).toBeCloseTo(((2_345.6 - 2_333.2) / 2_333.2) * 100, 10);
+    expect(quote.asOf).toBe("2024-05-17T04:59:00.000Z");
+  });
+
+  it("parses a history request", async () => {
+    mockUpstream();
+    const points = await yahooProvider.getHistory("gold", {
+      range: "1mo",
+      interval: "1h",
+      sinceTs: 0,
+      untilTs: 2_000_000_000,
+    });
+    expect(points.map((point) => point.close)).toEqual([2_380.1, 2_385.4, 2_379.9, 2_390]);
+  });
+
+  it("does not offer instruments it has no symbol for", () => {
+    expect(yahooProvider.supports("krx-gold", "quote")).toBe(false);
+  });
+});
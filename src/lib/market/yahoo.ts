@@ -0,0 +1,163 @@
+import { METALS } from "@/lib/metals";
+import { trackFetch, trackParse } from "./health";
+import type { Instrument, MarketDataProvider, Quote, SeriesPoint } from "./types";
+
+type YahooChartMeta = {
+  regularMarketPrice?: number;
+  chartPreviousClose?: number;
+  currency?: string;
+};
+
+type YahooChartQuote = {
+  close?: Array<number | null>;
+};
+
+export type YahooChartResult = {
+  meta?: YahooChartMeta;
+  timestamp?: number[];
+  indicators?: {
+    quote?: YahooChartQuote[];
+  };
+};
+
+type YahooChartResponse = {
+  chart?: {
+    result?: YahooChartResult[];
+  };
+};
+
+const SYMBOLS: Partial<Record<Instrument, string>> = {
+  ...Object.fromEntries(METALS.map((metal) => [metal.id, metal.symbol])),
+  usdkrw: "KRW=X",
+  usdjpy: "JPY=X",
+  usdcny: "CNY=X",
+  usdeur: "EUR=X",
+  kospi: "^KS11",
+  sp500: "^GSPC",
+  btcusd: "BTC-USD",
+};
+
+export function getLastValidNumber(values: Array<number | null> | undefined): number | null {
+  if (!values || values.length === 0) {
+    return null;
+  }
+
+  for (let i = values.length - 1; i >= 0; i -= 1) {
+    const value = values[i];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return value;
+    }
+  }
+  return null;
+}
+
+export function parseSeries(chart: YahooChartResult): SeriesPoint[] {
+  const timestamps = chart.timestamp ?? [];
+  const closes = chart.indicators?.quote?.[0]?.close ?? [];
+  const length = Math.min(timestamps.length, closes.length);
+  const points: SeriesPoint[] = [];
+
+  for (let i = 0; i < length; i += 1) {
+    const ts = timestamps[i];
+    const close = closes[i];
+
+    if (typeof ts !== "number" || !Number.isFinite(ts)) {
+      continue;
+    }
+    if (typeof close !== "number" || !Number.isFinite(close)) {
+      continue;
+    }
+
+    points.push({ ts, close });
+  }
+
+  return points.sort((a, b) => a.ts - b.ts);
+}
+
+function toUpstream(symbol: string): string {
+  return `yahoo:${symbol}`;
+}
+
+type ChartWindow = { range: string } | { period1: number; period2: number };
+
+export async function fetchChart(symbol: string, window: ChartWindow, interval: string): Promise<YahooChartResult> {
+  const query = new URLSearchParams(
+    "range" in window
+      ? { range: window.range, interval }
+      : { period1: String(window.period1), period2: String(window.period2), interval },
+  ).toString();
+  const url = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?${query}`;
+  const upstream = toUpstream(symbol);
+
+  const response = await trackFetch(upstream, () =>
+    fetch(url, {
+      cache: "no-store",
+      headers: {
+        "User-Agent": "Mozilla/5.0",
+      },
+    }),
+  );
+
+  if (!response.ok) {
+    throw new Error(`Yahoo request failed for ${symbol} (${response.status})`);
+  }
+
+  const body = await response.text();
+  return trackParse(upstream, () => {
+    const data = JSON.parse(body) as YahooChartResponse;
+    const result = data.chart?.result?.[0];
+
+    if (!result) {
+      throw new Error(`Yahoo returned empty chart result for ${symbol}`);
+    }
+
+    return result;
+  });
+}
+
+function toSymbol(instrument: Instrument): string {
+  const symbol = SYMBOLS[instrument];
+  if (!symbol) {
+    throw new Error(`Yahoo has no symbol for ${instrument}`);
+  }
+  return symbol;
+}
+
+async function getQuote(instrument: Instrument): Promise<Quote> {
+  const symbol = toSymbol(instrument);
+  const chart = await fetchChart(symbol, { range: "1d" }, "1m");
+
+  // A chart without a usable price parsed as JSON but is still a parse failure for health purposes.
+  return trackParse(toUpstream(symbol), () => {
+    const price = chart.meta?.regularMarketPrice ?? getLastValidNumber(chart.indicators?.quote?.[0]?.close);
+
+    if (typeof price !== "number" || !Number.isFinite(price)) {
+      throw new Error(`Invalid market value received for ${symbol}`);
+    }
+
+    const previousClose = chart.meta?.chartPreviousClose ?? null;
+    const lastTs = chart.timestamp?.at(-1);
+
+    return {
+      price,
+      previousClose,
+      changePercent: previousClose ? ((price - previousClose) / previousClose) * 100 : null,
+      asOf: typeof lastTs === "number" ? new Date(lastTs * 1000).toISOString() : null,
+    };
+  });
+}
+
+export const yahooProvider: MarketDataProvider = {
+  id: "yahoo",
+  supports: (instrument) => instrument in SYMBOLS,
+  label: (instrument) => `Yahoo Finance (${SYMBOLS[instrument] ?? instrument})`,
+  getQuote,
+  getHistory: async (instrument, { range, interval, sinceTs, untilTs }) =>
+    parseSeries(
+      await fetchChart(
+        toSymbol(instrument),
+        range === null ? { period1: sinceTs, period2: untilTs } : { range },
+        interval,
+      ),
+    ),
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { LIVE_POLL_MS, getMarketSession, getPollDelayMs, type MarketSession } from "./marketCalendar";
+
+const at = (iso: string) => Date.parse(iso);
+
+describe("getMarketSession", () => {
+  it("follows KRX gold market hours", () => {
+    expect(getMarketSession("krx", at("2026-10-19T10:00:00+09:00"))).toEqual({
+      market: "krx",
+      state: "live",
+      opensAt: null,
+      closesAt: "2026-10-19T06:30:00.000Z",
+    });
+    expect(getMarketSession("krx", at("2026-10-19T08:45:00+09:00"))).toMatchObject({
+      state: "pre-open",
+      opensAt: "2026-10-19T00:00:00.000Z",
+    });
+    expect(getMarketSession("krx", at("2026-10-19T15:30:00+09:00")).state).toBe("closed");
+  });
+
+  it("skips weekends and Korean holidays", () => {
+    expect(getMarketSession("krx", at("2026-10-17T11:00:00+09:00"))).toMatchObject({
+      state: "closed",
+      opensAt: "2026-10-19T00:00:00.000Z",
+    });
+    // Hangul Day falls on a Friday.
+    expect(getMarketSession("krx", at("2026-10-09T10:00:00+09:00"))).toMatchObject({
+      state: "closed",
+      opensAt: "2026-10-12T00:00:00.000Z",
+    });
+  });
+
+  it("follows the Globex week and daily break in New York time", () => {
+    expect(getMarketSession("comex", at("2026-10-20T03:00:00+09:00")).state).toBe("live");
+    expect(getMarketSession("comex", at("2026-10-20T17:30:00-04:00"))).toMatchObject({
+      state: "pre-open",
+      opensAt: "2026-10-20T22:00:00.000Z",
+    });
+    expect(getMarketSession("comex", at("2026-10-23T17:30:00-04:00")).state).toBe("closed");
+    expect(getMarketSession("comex", at("2026-10-17T12:00:00Z")).opensAt).toBe("2026-10-18T22:00:00.000Z");
+  });
+
+  it("tracks daylight saving time", () => {
+    // US clocks fall back on 2026-11-01, so Sunday's open moves to 23:00 UTC.
+    expect(getMarketSession("comex", at("2026-11-07T12:00:00Z")).opensAt).toBe("2026-11-08T23:00:00.000Z");
+    expect(getMarketSession("fx", at("2026-11-07T12:00:00Z")).opensAt).toBe("2026-11-08T22:00:00.000Z");
+  });
+
+  it("keeps FX live through the week", () => {
+    expect(getMarketSession("fx", at("2026-10-20T17:30:00-04:00")).state).toBe("live");
+    expect(getMarketSession("fx", at("2026-10-23T16:00:00-04:00")).closesAt).toBe("2026-10-23T21:00:00.000Z");
+  });
+});
+
+describe("getPollDelayMs", () => {
+  const session = (state: MarketSession["state"], opensAt: string | null = null): MarketSession => ({
+    market: "comex",
+    state,
+    opensAt,
+    closesAt: null,
+  });
+  const now = at("2026-10-17T12:00:00Z");
+
+  it("polls at the live rate while any market trades or is about to open", () => {
+    expect(getPollDelayMs([session("closed", "2026-10-19T00:00:00Z"), session("live")], now)).toBe(LIVE_POLL_MS);
+    expect(getPollDelayMs([session("pre-open", "2026-10-17T12:30:00Z")], now)).toBe(LIVE_POLL_MS);
+    expect(getPollDelayMs([], now)).toBe(LIVE_POLL_MS);
+  });
+
+  it("backs off while everything is closed, but not past the next open", () => {
+    expect(getPollDelayMs([session("closed", "2026-10-19T00:00:00Z"), session("closed")], now)).toBe(60_000);
+    expect(getPollDelayMs([session("closed", "2026-10-17T12:00:20Z")], now)).toBe(20_000);
+    expect(getPollDelayMs([session("closed", "2026-10-17T12:00:01Z")], now)).toBe(LIVE_POLL_MS);
+  });
+});
@@ -0,0 +1,198 @@
+// Trading sessions for the markets behind each quote. Pure and clock-agnostic (every function takes `nowMs`),
+// so the server can flag quotes and the client can pace its polling from the same rules.
+
+export type MarketId = "krx" | "comex" | "fx";
+
+export type SessionState = "live" | "closed" | "pre-open";
+
+export type MarketSession = {
+  market: MarketId;
+  state: SessionState;
+  // Next time the market goes live, while it is not; null while live or when nothing is scheduled.
+  opensAt: string | null;
+  // When the current session ends, while live.
+  closesAt: string | null;
+};
+
+type LocalTime = {
+  date: string;
+  // 0 = Sunday, as in Date#getDay.
+  weekday: number;
+  minutes: number;
+};
+
+type MarketRule = {
+  timeZone: string;
+  stateAt: (local: LocalTime) => SessionState;
+};
+
+// KRX market closures (public and substitute holidays, election days, year-end). Extend once KRX
+// publishes the next year; later dates fall back to weekends only.
+const KRX_HOLIDAYS = new Set([
+  "2025-01-01",
+  "2025-01-27",
+  "2025-01-28",
+  "2025-01-29",
+  "2025-01-30",
+  "2025-03-03",
+  "2025-05-01",
+  "2025-05-05",
+  "2025-05-06",
+  "2025-06-03",
+  "2025-06-06",
+  "2025-08-15",
+  "2025-10-03",
+  "2025-10-06",
+  "2025-10-07",
+  "2025-10-08",
+  "2025-10-09",
+  "2025-12-25",
+  "2025-12-31",
+  "2026-01-01",
+  "2026-02-16",
+  "2026-02-17",
+  "2026-02-18",
+  "2026-03-02",
+  "2026-05-01",
+  "2026-05-05",
+  "2026-05-25",
+  "2026-06-03",
+  "2026-08-17",
+  "2026-09-24",
+  "2026-09-25",
+  "2026-10-05",
+  "2026-10-09",
+  "2026-12-25",
+  "2026-12-31",
+  "2027-01-01",
+  "2027-02-08",
+  "2027-02-09",
+  "2027-03-01",
+  "2027-05-05",
+  "2027-05-13",
+  "2027-08-16",
+  "2027-09-14",
+  "2027-09-15",
+  "2027-09-16",
+  "2027-10-04",
+  "2027-10-11",
+  "2027-12-27",
+  "2027-12-31",
+]);
+
+const HOUR = 60;
+
+// Session boundaries all fall on the half hour, in every zone we track.
+const STEP_MS = 30 * 60_000;
+const SCAN_LIMIT_MS = 14 * 86_400_000;
+
+// CME holidays are not modelled: Globex mostly runs an abbreviated session on them rather than closing.
+const MARKET_RULES: Record<MarketId, MarketRule> = {
+  // KRX gold market: orders from 08:30, continuous trading 09:00-15:30 KST.
+  krx: {
+    timeZone: "Asia/Seoul",
+    stateAt: ({ date, weekday, minutes }) => {
+      if (weekday === 0 || weekday === 6 || KRX_HOLIDAYS.has(date)) {
+        return "closed";
+      }
+      if (minutes >= 9 * HOUR && minutes < 15 * HOUR + 30) {
+        return "live";
+      }
+      return minutes >= 8 * HOUR + 30 && minutes < 9 * HOUR ? "pre-open" : "closed";
+    },
+  },
+  // CME Globex metals: Sunday 18:00 to Friday 17:00 ET, with a daily break from 17:00 to 18:00.
+  comex: {
+    timeZone: "America/New_York",
+    stateAt: ({ weekday, minutes }) => {
+      if (weekday === 6 || (weekday === 5 && minutes >= 17 * HOUR)) {
+        return "closed";
+      }
+      if (minutes >= 17 * HOUR && minutes < 18 * HOUR) {
+        return "pre-open";
+      }
+      return weekday === 0 && minutes < 17 * HOUR ? "closed" : "live";
+    },
+  },
+  // Spot FX trades around the clock from Sunday 17:00 to Friday 17:00 New York time.
+  fx: {
+    timeZone: "America/New_York",
+    stateAt: ({ weekday, minutes }) => {
+      if (weekday === 6 || (weekday === 5 && minutes >= 17 * HOUR) || (weekday === 0 && minutes < 17 * HOUR)) {
+        return "closed";
+      }
+      return "live";
+    },
+  },
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function toLocalTime(ms: number, timeZone: string): LocalTime {
+  const parts = Object.fromEntries(getFormatter(timeZone).formatToParts(ms).map((part) => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * HOUR + Number(parts.minute),
+  };
+}
+
+function stateAt(market: MarketId, ms: number): SessionState {
+  const rule = MARKET_RULES[market];
+  return rule.stateAt(toLocalTime(ms, rule.timeZone));
+}
+
+// First half-hour boundary after `nowMs` where `matches` holds, within two weeks.
+function findNext(market: MarketId, nowMs: number, matches: (state: SessionState) => boolean): string | null {
+  for (let ms = Math.floor(nowMs / STEP_MS) * STEP_MS + STEP_MS; ms <= nowMs + SCAN_LIMIT_MS; ms += STEP_MS) {
+    if (matches(stateAt(market, ms))) {
+      return new Date(ms).toISOString();
+    }
+  }
+  return null;
+}
+
+export function getMarketSession(market: MarketId, nowMs: number): MarketSession {
+  const state = stateAt(market, nowMs);
+  return {
+    market,
+    state,
+    opensAt: state === "live" ? null : findNext(market, nowMs, (next) => next === "live"),
+    closesAt: state === "live" ? findNext(market, nowMs, (next) => next !== "live") : null,
+  };
+}
+
+export const LIVE_POLL_MS = 3000;
+const CLOSED_POLL_MS = 60_000;
+
+// Full rate while any market is live or about to open; otherwise once a minute, but never past the next open.
+export function getPollDelayMs(sessions: MarketSession[], nowMs: number): number {
+  if (sessions.length === 0 || sessions.some((session) => session.state !== "closed")) {
+    return LIVE_POLL_MS;
+  }
+
+  const nextOpenMs = Math.min(
+    ...sessions.map((session) => (session.opensAt ? Date.parse(session.opensAt) : Number.POSITIVE_INFINITY)),
+  );
+  return Math.min(CLOSED_POLL_MS, Math.max(LIVE_POLL_MS, nextOpenMs - nowMs));
+}
@@ -0,0 +1,26 @@
+export type Metal = "gold" | "silver" | "platinum" | "palladium";
+
+export const METALS: Array<{ id: Metal; label: string; symbol: string }> = [
+  { id: "gold", label: "금", symbol: "GC=F" },
+  { id: "silver", label: "은", symbol: "SI=F" },
+  { id: "platinum", label: "백금", symbol: "PL=F" },
+  { id: "palladium", label: "팔라듐", symbol: "PA=F" },
+];
+
+export const OUNCE_TO_GRAM = 31.1034768;
+
+export function parseMetal(value: string | null): Metal | null {
+  if (value === null) {
+    return "gold";
+  }
+  return METALS.some((item) => item.id === value) ? (value as Metal) : null;
+}
+
+// `perUsd` is units of the quote currency per dollar, e.g. USD/JPY for yen per gram.
+export function usdPerOunceToPerGram(usdPerOunce: number, perUsd: number): number {
+  return (usdPerOunce * perUsd) / OUNCE_TO_GRAM;
+}
+
+export function usdPerOunceToKrwPerGram(usdPerOunce: number, usdKrw: number): number {
+  return usdPerOunceToPerGram(usdPerOunce, usdKrw);
+}
@@ -0,0 +1,133 @@
+import { PRICE_CHANNELS, type ChannelId } from "@/lib/pricing";
+
+export type PortfolioLot = {
+  id: string;
+  // Purchase day as YYYY-MM-DD in KST.
+  date: string;
+  grams: number;
+  channel: ChannelId;
+  // Total paid for the lot, fees and VAT included.
+  paidKrw: number;
+};
+
+export type ValuationBasis = "domestic" | "global";
+
+export type PortfolioSummary = {
+  grams: number;
+  cost: number;
+  averageCostPerGram: number | null;
+  value: number | null;
+  pnl: number | null;
+  pnlPercent: number | null;
+};
+
+export type PortfolioValuePoint = {
+  ts: number;
+  value: number | null;
+  cost: number;
+};
+
+const CSV_COLUMNS = ["date", "grams", "channel", "paidKrw"] as const;
+
+export function lotDateToTs(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00+09:00`) / 1000);
+}
+
+export function validateLot(lot: Partial<PortfolioLot>): string | null {
+  if (typeof lot.date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(lot.date) || !Number.isFinite(lotDateToTs(lot.date))) {
+    return "Lot date must be YYYY-MM-DD";
+  }
+  if (typeof lot.grams !== "number" || !Number.isFinite(lot.grams) || lot.grams <= 0) {
+    return "Lot weight must be a positive number of grams";
+  }
+  if (!PRICE_CHANNELS.some((channel) => channel.id === lot.channel)) {
+    return "Unknown purchase channel";
+  }
+  if (typeof lot.paidKrw !== "number" || !Number.isFinite(lot.paidKrw) || lot.paidKrw < 0) {
+    return "Lot price must be a non-negative number";
+  }
+  return null;
+}
+
+export function summarizePortfolio(lots: PortfolioLot[], pricePerGram: number | null): PortfolioSummary {
+  const grams = lots.reduce((sum, lot) => sum + lot.grams, 0);
+  const cost = lots.reduce((sum, lot) => sum + lot.paidKrw, 0);
+  const value = pricePerGram === null ? null : grams * pricePerGram;
+  const pnl = value === null ? null : value - cost;
+
+  return {
+    grams,
+    cost,
+    averageCostPerGram: grams > 0 ? cost / grams : null,
+    value,
+    pnl,
+    pnlPercent: pnl === null || cost === 0 ? null : (pnl / cost) * 100,
+  };
+}
+
+// Values the lots held at each point; a lot counts from the start of its purchase day.
+export function buildValueSeries(
+  lots: PortfolioLot[],
+  points: Array<{ ts: number; krwPerGram: number | null }>,
+): PortfolioValuePoint[] {
+  const sorted = lots
+    .map((lot) => ({ ts: lotDateToTs(lot.date), grams: lot.grams, paidKrw: lot.paidKrw }))
+    .sort((a, b) => a.ts - b.ts);
+  let index = 0;
+  let grams = 0;
+  let cost = 0;
+
+  return points.map((point) => {
+    while (index < sorted.length && sorted[index].ts <= point.ts) {
+      grams += sorted[index].grams;
+      cost += sorted[index].paidKrw;
+      index += 1;
+    }
+    return { ts: point.ts, value: point.krwPerGram === null ? null : grams * point.krwPerGram, cost };
+  });
+}
+
+export function lotsToCsv(lots: PortfolioLot[]): string {
+  const rows = lots.map((lot) => CSV_COLUMNS.map((column) => String(lot[column])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+}
+
+function toLot(raw: Partial<Record<keyof PortfolioLot, unknown>>, id: string): PortfolioLot | null {
+  const lot = {
+    id: typeof raw.id === "string" && raw.id ? raw.id : id,
+    date: String(raw.date ?? "").trim(),
+    grams: Number(raw.grams),
+    channel: String(raw.channel ?? "").trim() as ChannelId,
+    paidKrw: Number(raw.paidKrw),
+  };
+  return validateLot(lot) ? null : lot;
+}
+
+// Accepts either the JSON export (an array of lots) or the CSV export; rows that don't validate are counted and dropped.
+export function parseLots(text: string, createId: () => string): { lots: PortfolioLot[]; rejected: number } {
+  const trimmed = text.trim();
+  let rows: Array<Partial<Record<keyof PortfolioLot, unknown>>>;
+
+  if (trimmed.startsWith("[")) {
+    const parsed: unknown = JSON.parse(trimmed);
+    rows = Array.isArray(parsed) ? parsed.filter((item) => item && typeof item === "object") : [];
+  } else {
+    const lines = trimmed.split(/\r?\n/).filter((line) => line.trim() !== "");
+    const header = lines[0]?.split(",").map((cell) => cell.trim()) ?? [];
+    const hasHeader = CSV_COLUMNS.every((column) => header.includes(column));
+    const columns: readonly string[] = hasHeader ? header : CSV_COLUMNS;
+    rows = (hasHeader ? lines.slice(1) : lines).map((line) => {
+      const cells = line.split(",");
+      return Object.fromEntries(columns.map((column, idx) => [column, cells[idx]]));
+    });
+  }
+
+  const lots: PortfolioLot[] = [];
+  for (const row of rows) {
+    const lot = toLot(row, createId());
+    if (lot) {
+      lots.push(lot);
+    }
+  }
+  return { lots, rejected: rows.length - lots.length };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { OUNCE_TO_GRAM, usdPerOunceToKrwPerGram } from "./metals";
+import { PRICE_CHANNELS, convertWeight, estimateChannel, isValidFees, toGrams, type ChannelId } from "./pricing";
+
+function getChannel(id: ChannelId) {
+  const channel = PRICE_CHANNELS.find((item) => item.id === id);
+  if (!channel) {
+    throw new Error(`No channel ${id}`);
+  }
+  return channel;
+}
+
+describe("unit conversions", () => {
+  it("converts USD per troy ounce to KRW per gram", () => {
+    expect(usdPerOunceToKrwPerGram(OUNCE_TO_GRAM, 1_000)).toBeCloseTo(1_000, 10);
+    expect(usdPerOunceToKrwPerGram(2_345.6, 1_384.5)).toBeCloseTo(104_409.01, 2);
+  });
+
+  it("converts between Korean and metric weights", () => {
+    expect(toGrams(1, "don")).toBe(3.75);
+    expect(toGrams(2, "nyang")).toBe(75);
+    expect(convertWeight(10, "don", "nyang")).toBe(1);
+    expect(convertWeight(1, "kg", "g")).toBe(1_000);
+    expect(convertWeight(1, "ozt", "g")).toBe(OUNCE_TO_GRAM);
+  });
+});
+
+describe("estimateChannel", () => {
+  const prices = { domesticKrwPerGram: 100_000, globalKrwPerGram: 98_000 };
+
+  it("adds fees and VAT on purchase and takes fees off the sale", () => {
+    const estimate = estimateChannel(getChannel("jewelry"), 3.75, prices);
+    expect(estimate?.basePerGram).toBe(100_000);
+    expect(estimate?.buy).toBeCloseTo(375_000 * 1.05 * 1.1, 6);
+    expect(estimate?.buyVat).toBeCloseTo(375_000 * 1.05 * 0.1, 6);
+    expect(estimate?.sell).toBeCloseTo(375_000 * 0.95, 6);
+  });
+
+  it("prices global channels off the converted price", () => {
+    const estimate = estimateChannel(getChannel("bank"), 1, prices);
+    expect(estimate?.basePerGram).toBe(98_000);
+    expect(estimate?.buyVat).toBe(0);
+  });
+
+  it("falls back to the global price without a domestic quote", () => {
+    expect(estimateChannel(getChannel("krx"), 1, { ...prices, domesticKrwPerGram: null })?.basePerGram).toBe(98_000);
+  });
+
+  it("returns null without a price or with a negative weight", () => {
+    expect(estimateChannel(getChannel("krx"), 1, { domesticKrwPerGram: null, globalKrwPerGram: null })).toBeNull();
+    expect(estimateChannel(getChannel("krx"), -1, prices)).toBeNull();
+  });
+
+  it("rejects fees outside 0-100%", () => {
+    expect(isValidFees({ buyFeePercent: 0, sellFeePercent: 99.9 })).toBe(true);
+    expect(isValidFees({ buyFeePercent: -1, sellFeePercent: 1 })).toBe(false);
+    expect(isValidFees({ buyFeePercent: 1 })).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { OUNCE_TO_GRAM } from "@/lib/metals";
+
+export type WeightUnit = "g" | "don" | "nyang" | "kg" | "ozt";
+
+export const WEIGHT_UNITS: Array<{ id: WeightUnit; label: string; grams: number }> = [
+  { id: "g", label: "g", grams: 1 },
+  { id: "don", label: "돈", grams: 3.75 },
+  { id: "nyang", label: "냥", grams: 37.5 },
+  { id: "kg", label: "kg", grams: 1000 },
+  { id: "ozt", label: "트로이온스", grams: OUNCE_TO_GRAM },
+];
+
+export const VAT_RATE = 0.1;
+
+export type ChannelId = "krx" | "bank" | "jewelry";
+
+// domestic: priced off the KRX spot; global: priced off the converted international price.
+export type PriceBase = "domestic" | "global";
+
+export type ChannelFees = {
+  buyFeePercent: number;
+  sellFeePercent: number;
+};
+
+export type PriceChannel = ChannelFees & {
+  id: ChannelId;
+  label: string;
+  base: PriceBase;
+  // Whether 10% VAT is charged on purchase. Account-held gold only pays it on physical withdrawal.
+  buyVat: boolean;
+  note: string;
+};
+
+export const PRICE_CHANNELS: PriceChannel[] = [
+  {
+    id: "krx",
+    label: "KRX 금 계좌",
+    base: "domestic",
+    buyFeePercent: 0.3,
+    sellFeePercent: 0.3,
+    buyVat: false,
+    note: "보유 중 부가세 면제, 실물 인출 시 10% 부가세",
+  },
+  {
+    id: "bank",
+    label: "은행 골드뱅킹",
+    base: "global",
+    buyFeePercent: 1,
+    sellFeePercent: 1,
+    buyVat: false,
+    note: "매매 차익에 배당소득세 15.4%, 실물 인출 시 10% 부가세",
+  },
+  {
+    id: "jewelry",
+    label: "금은방 (실물)",
+    base: "domestic",
+    buyFeePercent: 5,
+    sellFeePercent: 5,
+    buyVat: true,
+    note: "살 때 부가세 10% 포함, 세공비 별도",
+  },
+];
+
+export type ChannelEstimate = {
+  id: ChannelId;
+  basePerGram: number;
+  buy: number;
+  buyVat: number;
+  sell: number;
+};
+
+function getUnitGrams(unit: WeightUnit): number {
+  return WEIGHT_UNITS.find((item) => item.id === unit)?.grams ?? 1;
+}
+
+export function toGrams(amount: number, unit: WeightUnit): number {
+  return amount * getUnitGrams(unit);
+}
+
+export function convertWeight(amount: number, from: WeightUnit, to: WeightUnit): number {
+  return toGrams(amount, from) / getUnitGrams(to);
+}
+
+export function isValidFees(fees: Partial<ChannelFees>): fees is ChannelFees {
+  return [fees.buyFeePercent, fees.sellFeePercent].every(
+    (value) => typeof value === "number" && Number.isFinite(value) && value >= 0 && value < 100,
+  );
+}
+
+// Falls back to the converted global price when there is no domestic quote (e.g. metals KRX doesn't list).
+export function estimateChannel(
+  channel: PriceChannel,
+  grams: number,
+  prices: { domesticKrwPerGram: number | null; globalKrwPerGram: number | null },
+): ChannelEstimate | null {
+  const basePerGram =
+    channel.base === "domestic" ? (prices.domesticKrwPerGram ?? prices.globalKrwPerGram) : prices.globalKrwPerGram;
+  if (basePerGram === null || !Number.isFinite(grams) || grams < 0) {
+    return null;
+  }
+
+  const value = basePerGram * grams;
+  const beforeVat = value * (1 + channel.buyFeePercent / 100);
+  const buyVat = channel.buyVat ? beforeVat * VAT_RATE : 0;
+
+  return {
+    id: channel.id,
+    basePerGram,
+    buy: beforeVat + buyVat,
+    buyVat,
+    sell: value * (1 - channel.sellFeePercent / 100),
+  };
+}
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { clearQuoteCache } from "@/test/upstream";
+import { MAX_CACHE_ENTRIES, cached, peekCached } from "./quoteCache";
+
+const POLICY = { ttlMs: 60_000, staleMs: 0 };
+
+beforeEach(() => {
+  clearQuoteCache();
+});
+
+describe("cached", () => {
+  it("serves a fresh value without calling the loader again", async () => {
+    await cached("a", POLICY, async () => 1);
+    const result = await cached("a", POLICY, async () => 2);
+
+    expect(result.value).toBe(1);
+    expect(result.meta.stale).toBe(false);
+  });
+
+  it("reloads a cached value the caller cannot use", async () => {
+    await cached("a", POLICY, async () => 1);
+    const result = await cached("a", POLICY, async () => 2, (value) => value >= 2);
+
+    expect(result.value).toBe(2);
+    expect(peekCached("a")?.value).toBe(2);
+  });
+
+  it("evicts the least recently used entry once full", async () => {
+    for (let i = 0; i < MAX_CACHE_ENTRIES; i += 1) {
+      await cached(`key:${i}`, POLICY, async () => i);
+    }
+    // Reading key:0 makes key:1 the oldest.
+    await cached("key:0", POLICY, async () => -1);
+    await cached("key:new", POLICY, async () => MAX_CACHE_ENTRIES);
+
+    expect(peekCached("key:0")?.value).toBe(0);
+    expect(peekCached("key:1")).toBeNull();
+    expect(peekCached("key:new")?.value).toBe(MAX_CACHE_ENTRIES);
+  });
+});
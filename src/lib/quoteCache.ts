@@ -0,0 +1,122 @@
+export type CachePolicy = {
+  // How long a value is served without touching upstream.
+  ttlMs: number;
+  // How long past the TTL a value may still be served while a refresh runs in the background.
+  staleMs: number;
+};
+
+export type CacheMeta = {
+  fetchedAt: string;
+  ageMs: number;
+  stale: boolean;
+};
+
+export type CachedResult<T> = {
+  value: T;
+  meta: CacheMeta;
+};
+
+type CacheEntry = {
+  value: unknown;
+  fetchedAt: number;
+};
+
+type CacheStore = {
+  entries: Map<string, CacheEntry>;
+  inFlight: Map<string, Promise<CacheEntry>>;
+};
+
+// Every history window is its own entry, and callers choose the windows; evict the least recently used past this.
+export const MAX_CACHE_ENTRIES = 500;
+
+const globalForCache = globalThis as typeof globalThis & { __quoteCache?: CacheStore };
+
+// Kept on globalThis so dev-mode module reloads and every route share one store.
+const store: CacheStore = (globalForCache.__quoteCache ??= {
+  entries: new Map(),
+  inFlight: new Map(),
+});
+
+function load(key: string, loader: () => Promise<unknown>): Promise<CacheEntry> {
+  const pending = store.inFlight.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const request = loader()
+    .then((value) => {
+      const entry = { value, fetchedAt: Date.now() };
+      store.entries.delete(key);
+      store.entries.set(key, entry);
+      evictOldest();
+      return entry;
+    })
+    .finally(() => {
+      store.inFlight.delete(key);
+    });
+
+  store.inFlight.set(key, request);
+  return request;
+}
+
+// Maps iterate in insertion order, so re-inserting on every read keeps the least recently used first.
+function touch(key: string): CacheEntry | undefined {
+  const entry = store.entries.get(key);
+  if (entry) {
+    store.entries.delete(key);
+    store.entries.set(key, entry);
+  }
+  return entry;
+}
+
+function evictOldest() {
+  for (const key of store.entries.keys()) {
+    if (store.entries.size <= MAX_CACHE_ENTRIES) {
+      return;
+    }
+    store.entries.delete(key);
+  }
+}
+
+function toResult<T>(entry: CacheEntry, stale: boolean): CachedResult<T> {
+  return {
+    value: entry.value as T,
+    meta: {
+      fetchedAt: new Date(entry.fetchedAt).toISOString(),
+      ageMs: Math.max(Date.now() - entry.fetchedAt, 0),
+      stale,
+    },
+  };
+}
+
+// A cached value that `usable` rejects (e.g. a series too short for the caller) is reloaded as if missing.
+export async function cached<T>(
+  key: string,
+  policy: CachePolicy,
+  loader: () => Promise<T>,
+  usable: (value: T) => boolean = () => true,
+): Promise<CachedResult<T>> {
+  const touched = touch(key);
+  const entry = touched && usable(touched.value as T) ? touched : undefined;
+  const age = entry ? Date.now() - entry.fetchedAt : Number.POSITIVE_INFINITY;
+
+  if (entry && age < policy.ttlMs) {
+    return toResult<T>(entry, false);
+  }
+
+  if (entry && age < policy.ttlMs + policy.staleMs) {
+    // Refresh failures are swallowed here; the next caller past the stale window will see them.
+    load(key, loader).catch(() => undefined);
+    return toResult<T>(entry, true);
+  }
+
+  const loaded = await load(key, loader);
+  // A load already in flight for another caller may not suit this one; start a load of its own.
+  return toResult<T>(usable(loaded.value as T) ? loaded : await load(key, loader), false);
+}
+
+// Last successfully loaded value regardless of age, for serving something while an upstream is down.
+export function peekCached<T>(key: string): CachedResult<T> | null {
+  const entry = store.entries.get(key);
+  return entry ? toResult<T>(entry, true) : null;
+}
@@ -0,0 +1,104 @@
+import { getSpotSnapshot, type SpotSnapshot } from "@/lib/spot";
+import { appendSpotRecord, pruneSpotRecords, readLastSpotRecord, type SpotRecord } from "./store";
+
+const DEFAULT_INTERVAL_MS = 60_000;
+const DEFAULT_RETENTION_DAYS = 30;
+const PRUNE_EVERY_MS = 60 * 60_000;
+
+type RecorderState = {
+  timer: ReturnType<typeof setInterval> | null;
+  running: boolean;
+  // Dedupe key of the last stored record; undefined until read back from the store.
+  lastKey: string | null | undefined;
+  lastPrunedAt: number;
+};
+
+const globalForRecorder = globalThis as typeof globalThis & { __spotRecorder?: RecorderState };
+
+const state: RecorderState = (globalForRecorder.__spotRecorder ??= {
+  timer: null,
+  running: false,
+  lastKey: undefined,
+  lastPrunedAt: 0,
+});
+
+function toRecord(snapshot: SpotSnapshot, ts: number): SpotRecord {
+  return {
+    ts,
+    domesticKrwPerGram: snapshot.domesticKrwPerGram,
+    domesticAsOf: snapshot.sources.domestic.asOf,
+    goldUsdPerOunce: snapshot.goldPriceUsdPerOunce,
+    goldAsOf: snapshot.sources.gold.asOf,
+    usdKrw: snapshot.usdKrw,
+    fxAsOf: snapshot.sources.fx.asOf,
+  };
+}
+
+// Two snapshots of the same upstream quotes (e.g. a stale fallback, or a closed market) are one record.
+function toKey(record: SpotRecord): string {
+  return JSON.stringify([
+    record.domesticKrwPerGram,
+    record.domesticAsOf,
+    record.goldUsdPerOunce,
+    record.goldAsOf,
+    record.usdKrw,
+    record.fxAsOf,
+  ]);
+}
+
+function getRetentionDays(): number {
+  const parsed = Number.parseFloat(process.env.SPOT_RECORDER_RETENTION_DAYS ?? "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_RETENTION_DAYS;
+}
+
+export async function recordSpotOnce(): Promise<{ recorded: boolean; pruned: number }> {
+  if (state.running) {
+    return { recorded: false, pruned: 0 };
+  }
+
+  state.running = true;
+  try {
+    const nowMs = Date.now();
+    const record = toRecord(await getSpotSnapshot("gold"), Math.floor(nowMs / 1000));
+    if (state.lastKey === undefined) {
+      const last = await readLastSpotRecord();
+      state.lastKey = last ? toKey(last) : null;
+    }
+
+    const key = toKey(record);
+    const hasQuotes = record.domesticKrwPerGram !== null || record.goldUsdPerOunce !== null || record.usdKrw !== null;
+    const recorded = hasQuotes && key !== state.lastKey;
+    if (recorded) {
+      await appendSpotRecord(record);
+      state.lastKey = key;
+    }
+
+    let pruned = 0;
+    if (nowMs - state.lastPrunedAt >= PRUNE_EVERY_MS) {
+      state.lastPrunedAt = nowMs;
+      pruned = await pruneSpotRecords(Math.floor(nowMs / 1000 - getRetentionDays() * 86_400));
+    }
+
+    return { recorded, pruned };
+  } finally {
+    state.running = false;
+  }
+}
+
+// Idempotent, like the alert engine: instrumentation starts it once per server process.
+export function startSpotRecorder() {
+  if (state.timer || process.env.SPOT_RECORDER === "off") {
+    return;
+  }
+
+  const parsed = Number.parseInt(process.env.SPOT_RECORDER_INTERVAL_MS ?? "", 10);
+  const intervalMs = Number.isFinite(parsed) && parsed >= 1000 ? parsed : DEFAULT_INTERVAL_MS;
+  const run = () => {
+    recordSpotOnce().catch((error) => {
+      console.error("[spot-recorder] run failed:", error instanceof Error ? error.message : error);
+    });
+  };
+
+  run();
+  state.timer = setInterval(run, intervalMs);
+}
@@ -0,0 +1,94 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type SpotRecord = {
+  // When the recorder took the snapshot, in epoch seconds.
+  ts: number;
+  domesticKrwPerGram: number | null;
+  domesticAsOf: string | null;
+  goldUsdPerOunce: number | null;
+  goldAsOf: string | null;
+  usdKrw: number | null;
+  fxAsOf: string | null;
+};
+
+type StoreState = {
+  queue: Promise<unknown>;
+};
+
+const globalForStore = globalThis as typeof globalThis & { __spotRecordStore?: StoreState };
+
+// Appends, reads and pruning rewrites share one queue so a prune never drops a concurrent append.
+const state: StoreState = (globalForStore.__spotRecordStore ??= { queue: Promise.resolve() });
+
+function getStorePath(): string {
+  return process.env.SPOT_RECORDER_PATH ?? path.join(process.cwd(), ".data", "spot-records.jsonl");
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = state.queue.then(task, task);
+  state.queue = run.catch(() => undefined);
+  return run;
+}
+
+// One JSON record per line; a torn last line from a crash mid-append is skipped rather than fatal.
+async function readAll(): Promise<SpotRecord[]> {
+  let raw: string;
+  try {
+    raw = await readFile(getStorePath(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const records: SpotRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const record = JSON.parse(line) as SpotRecord;
+      if (typeof record.ts === "number") {
+        records.push(record);
+      }
+    } catch {
+      // Ignore the partial line.
+    }
+  }
+  return records;
+}
+
+export function appendSpotRecord(record: SpotRecord): Promise<void> {
+  return enqueue(async () => {
+    const storePath = getStorePath();
+    await mkdir(path.dirname(storePath), { recursive: true });
+    await appendFile(storePath, `${JSON.stringify(record)}\n`, "utf8");
+  });
+}
+
+export function readSpotRecords(sinceTs: number, untilTs: number): Promise<SpotRecord[]> {
+  return enqueue(async () => (await readAll()).filter((record) => record.ts >= sinceTs && record.ts <= untilTs));
+}
+
+export function readLastSpotRecord(): Promise<SpotRecord | null> {
+  return enqueue(async () => (await readAll()).at(-1) ?? null);
+}
+
+// Rewrites the file without records older than `cutoffTs`; returns how many were dropped.
+export function pruneSpotRecords(cutoffTs: number): Promise<number> {
+  return enqueue(async () => {
+    const records = await readAll();
+    const kept = records.filter((record) => record.ts >= cutoffTs);
+    if (kept.length === records.length) {
+      return 0;
+    }
+
+    const storePath = getStorePath();
+    const tempPath = `${storePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, kept.map((record) => `${JSON.stringify(record)}\n`).join(""), "utf8");
+    await rename(tempPath, storePath);
+    return records.length - kept.length;
+  });
+}
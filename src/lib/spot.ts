@@ -0,0 +1,180 @@
+import { CURRENCIES, type Currency } from "@/lib/currencies";
+import { getQuote, type BenchmarkInstrument, type Instrument, type Quote, type Sourced } from "@/lib/market";
+import { getMarketSession, type MarketId, type MarketSession } from "@/lib/marketCalendar";
+import { usdPerOunceToKrwPerGram, type Metal } from "@/lib/metals";
+import { cached, peekCached, type CachePolicy } from "@/lib/quoteCache";
+
+const CACHE_POLICY = {
+  domestic: { ttlMs: 5_000, staleMs: 55_000 },
+  global: { ttlMs: 5_000, staleMs: 55_000 },
+} satisfies Record<string, CachePolicy>;
+
+// Benchmarks only ever feed history charts, so they have no session to report.
+type SpotInstrument = Exclude<Instrument, BenchmarkInstrument>;
+
+// Every metal trades on CME Globex hours, whichever feed quotes it.
+const INSTRUMENT_MARKETS: Record<SpotInstrument, MarketId> = {
+  gold: "comex",
+  silver: "comex",
+  platinum: "comex",
+  palladium: "comex",
+  usdkrw: "fx",
+  usdjpy: "fx",
+  usdcny: "fx",
+  usdeur: "fx",
+  "krx-gold": "krx",
+};
+
+export type SourceStatus = "ok" | "stale" | "error";
+
+export type SourceResult = {
+  status: SourceStatus;
+  source: string | null;
+  fetchedAt: string | null;
+  ageMs: number | null;
+  // When the upstream says the quote was made, as opposed to when we fetched it.
+  asOf: string | null;
+  error: string | null;
+  // Whether the quote's market is trading right now; a closed market's quote is its last close.
+  session: MarketSession;
+};
+
+// The gold fields are always present (premium and alerts are gold-based);
+// the metal fields describe whichever metal was requested, and equal the gold ones for gold.
+// `fxRates` (units per USD, null when unavailable) lets clients reprice the won fields in any currency.
+export type SpotSnapshot = {
+  metal: Metal;
+  metalUsdPerOunce: number | null;
+  metalKrwPerGram: number | null;
+  metalChangePercent: number | null;
+  goldSilverRatio: number | null;
+  domesticKrwPerGram: number | null;
+  goldPriceUsdPerOunce: number | null;
+  usdKrw: number | null;
+  globalKrwPerGram: number | null;
+  premiumKrwPerGram: number | null;
+  premiumPercent: number | null;
+  previousDomesticKrwPerGram: number | null;
+  changePercent: number | null;
+  fxRates: Record<Currency, number | null>;
+  updatedAt: string;
+  source: string;
+  sources: {
+    domestic: SourceResult;
+    gold: SourceResult;
+    fx: SourceResult;
+    metal: SourceResult;
+  };
+};
+
+type LoadedQuote = {
+  quote: Quote | null;
+  result: SourceResult;
+};
+
+// Never throws: a failing upstream falls back to its last good value, or reports an error with no value.
+async function loadQuote(instrument: SpotInstrument, policy: CachePolicy): Promise<LoadedQuote> {
+  const key = `spot:${instrument}`;
+  const session = getMarketSession(INSTRUMENT_MARKETS[instrument], Date.now());
+
+  try {
+    const { value, meta } = await cached(key, policy, () => getQuote(instrument));
+    return {
+      quote: value.data,
+      result: {
+        status: meta.stale ? "stale" : "ok",
+        source: value.source,
+        fetchedAt: meta.fetchedAt,
+        ageMs: meta.ageMs,
+        asOf: value.data.asOf,
+        error: null,
+        session,
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const lastGood = peekCached<Sourced<Quote>>(key);
+
+    return {
+      quote: lastGood?.value.data ?? null,
+      result: {
+        status: lastGood ? "stale" : "error",
+        source: lastGood?.value.source ?? null,
+        fetchedAt: lastGood?.meta.fetchedAt ?? null,
+        ageMs: lastGood?.meta.ageMs ?? null,
+        asOf: lastGood?.value.data.asOf ?? null,
+        error: message,
+        session,
+      },
+    };
+  }
+}
+
+export async function getSpotSnapshot(metal: Metal = "gold"): Promise<SpotSnapshot> {
+  // Repeated instruments (e.g. gold as both gold and metal, or USD/KRW as both fx and a rate)
+  // share one cached upstream call.
+  const ratesRequest = Promise.all(
+    CURRENCIES.map(async ({ id, instrument }): Promise<[Currency, number | null]> => [
+      id,
+      instrument === null ? 1 : ((await loadQuote(instrument, CACHE_POLICY.global)).quote?.price ?? null),
+    ]),
+  );
+  const [domestic, gold, fx, selected, silver] = await Promise.all([
+    loadQuote("krx-gold", CACHE_POLICY.domestic),
+    loadQuote("gold", CACHE_POLICY.global),
+    loadQuote("usdkrw", CACHE_POLICY.global),
+    loadQuote(metal, CACHE_POLICY.global),
+    loadQuote("silver", CACHE_POLICY.global),
+  ]);
+  const rates = await ratesRequest;
+
+  const domesticKrwPerGram = domestic.quote?.price ?? null;
+  const goldPriceUsdPerOunce = gold.quote?.price ?? null;
+  const usdKrw = fx.quote?.price ?? null;
+
+  const globalTimes = [selected.quote?.asOf, fx.quote?.asOf]
+    .filter((value): value is string => typeof value === "string")
+    .map(Date.parse);
+  const globalUpdatedAt = new Date(globalTimes.length > 0 ? Math.max(...globalTimes) : Date.now()).toISOString();
+  const updatedAt = (metal === "gold" ? domestic.quote?.asOf : null) ?? globalUpdatedAt;
+
+  // Premium is quoted against the converted COMEX price: positive means KRX trades rich.
+  const globalKrwPerGram =
+    goldPriceUsdPerOunce !== null && usdKrw !== null ? usdPerOunceToKrwPerGram(goldPriceUsdPerOunce, usdKrw) : null;
+  const premiumKrwPerGram =
+    domesticKrwPerGram !== null && globalKrwPerGram !== null ? domesticKrwPerGram - globalKrwPerGram : null;
+  const premiumPercent =
+    premiumKrwPerGram !== null && globalKrwPerGram !== null ? (premiumKrwPerGram / globalKrwPerGram) * 100 : null;
+
+  const metalUsdPerOunce = selected.quote?.price ?? null;
+  const silverUsdPerOunce = silver.quote?.price ?? null;
+
+  return {
+    metal,
+    metalUsdPerOunce,
+    metalKrwPerGram:
+      metalUsdPerOunce !== null && usdKrw !== null ? usdPerOunceToKrwPerGram(metalUsdPerOunce, usdKrw) : null,
+    metalChangePercent: selected.quote?.changePercent ?? null,
+    goldSilverRatio:
+      goldPriceUsdPerOunce !== null && silverUsdPerOunce ? goldPriceUsdPerOunce / silverUsdPerOunce : null,
+    domesticKrwPerGram,
+    goldPriceUsdPerOunce,
+    usdKrw,
+    globalKrwPerGram,
+    premiumKrwPerGram,
+    premiumPercent,
+    previousDomesticKrwPerGram: domestic.quote ? (domestic.quote.previousClose ?? domestic.quote.price) : null,
+    changePercent: domestic.quote ? (domestic.quote.changePercent ?? 0) : null,
+    fxRates: Object.fromEntries(rates) as Record<Currency, number | null>,
+    updatedAt,
+    source: `Domestic: ${domestic.result.source ?? "unavailable"}. Global: ${selected.result.source ?? "unavailable"}, ${
+      fx.result.source ?? "unavailable"
+    }.`,
+    sources: {
+      domestic: domestic.result,
+      gold: gold.result,
+      fx: fx.result,
+      metal: selected.result,
+    },
+  };
+}
@@ -0,0 +1,171 @@
+import { LIVE_POLL_MS, getPollDelayMs } from "@/lib/marketCalendar";
+import type { Metal } from "@/lib/metals";
+import { getSpotSnapshot, type SpotSnapshot } from "@/lib/spot";
+
+const FLASH_THRESHOLD = 0.01;
+
+export type SpotStreamEvent = {
+  id: number | null;
+  event: "spot" | "spot-error";
+  data: string;
+};
+
+export type SpotChange = "domestic" | "global";
+
+type Listener = (event: SpotStreamEvent) => void;
+
+type StreamState = {
+  metal: Metal;
+  listeners: Set<Listener>;
+  timer: ReturnType<typeof setTimeout> | null;
+  polling: boolean;
+  seq: number;
+  lastSnapshot: SpotSnapshot | null;
+  lastEvent: SpotStreamEvent | null;
+};
+
+const globalForStream = globalThis as typeof globalThis & { __spotStreams?: Map<Metal, StreamState> };
+
+// One upstream poller per metal per server process, however many browsers are subscribed.
+const streams: Map<Metal, StreamState> = (globalForStream.__spotStreams ??= new Map());
+
+function getStream(metal: Metal): StreamState {
+  let state = streams.get(metal);
+  if (!state) {
+    state = {
+      metal,
+      listeners: new Set(),
+      timer: null,
+      polling: false,
+      seq: 0,
+      lastSnapshot: null,
+      lastEvent: null,
+    };
+    streams.set(metal, state);
+  }
+  return state;
+}
+
+// Cache ages change on every poll, so only quoted values and source health decide whether to push.
+function toQuoteKey(snapshot: SpotSnapshot): string {
+  const { domestic, gold, fx, metal } = snapshot.sources;
+  return JSON.stringify([
+    snapshot.domesticKrwPerGram,
+    snapshot.goldPriceUsdPerOunce,
+    snapshot.metalUsdPerOunce,
+    snapshot.goldSilverRatio,
+    snapshot.usdKrw,
+    snapshot.changePercent,
+    snapshot.fxRates,
+    snapshot.updatedAt,
+    [domestic.status, gold.status, fx.status, metal.status],
+    [domestic.session.state, metal.session.state, fx.session.state],
+  ]);
+}
+
+function hasMoved(prev: number | null, next: number | null): boolean {
+  if (prev === null || next === null) {
+    return false;
+  }
+  return Math.abs(next - prev) >= FLASH_THRESHOLD;
+}
+
+function getChangedFields(prev: SpotSnapshot | null, next: SpotSnapshot): SpotChange[] {
+  if (!prev) {
+    return [];
+  }
+
+  const changed: SpotChange[] = [];
+  if (hasMoved(prev.domesticKrwPerGram, next.domesticKrwPerGram)) {
+    changed.push("domestic");
+  }
+  if (hasMoved(prev.metalKrwPerGram, next.metalKrwPerGram)) {
+    changed.push("global");
+  }
+  return changed;
+}
+
+function broadcast(state: StreamState, event: SpotStreamEvent) {
+  for (const listener of state.listeners) {
+    listener(event);
+  }
+}
+
+async function poll(state: StreamState) {
+  if (state.polling) {
+    return;
+  }
+
+  state.polling = true;
+  try {
+    const snapshot = await getSpotSnapshot(state.metal);
+    const prev = state.lastSnapshot;
+    if (prev && toQuoteKey(prev) === toQuoteKey(snapshot)) {
+      return;
+    }
+
+    state.seq += 1;
+    state.lastSnapshot = snapshot;
+    state.lastEvent = {
+      id: state.seq,
+      event: "spot",
+      data: JSON.stringify({ snapshot, changed: getChangedFields(prev, snapshot) }),
+    };
+    broadcast(state, state.lastEvent);
+  } catch (error) {
+    // No id: a failed poll must not move the client's Last-Event-ID forward.
+    broadcast(state, {
+      id: null,
+      event: "spot-error",
+      data: JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+    });
+  } finally {
+    state.polling = false;
+  }
+}
+
+// Slows down while every market behind the snapshot is closed, and speeds back up for the next open.
+function getNextPollMs(state: StreamState): number {
+  if (!state.lastSnapshot) {
+    return LIVE_POLL_MS;
+  }
+  const { domestic, metal, fx } = state.lastSnapshot.sources;
+  return getPollDelayMs([domestic.session, metal.session, fx.session], Date.now());
+}
+
+function schedule(state: StreamState, delayMs: number) {
+  const timer = setTimeout(() => {
+    void poll(state).then(() => {
+      // Unsubscribing clears the timer, and a resubscribe in the meantime starts its own chain.
+      if (state.timer === timer) {
+        schedule(state, getNextPollMs(state));
+      }
+    });
+  }, delayMs);
+  state.timer = timer;
+}
+
+export function formatSseEvent({ id, event, data }: SpotStreamEvent): string {
+  return `${id === null ? "" : `id: ${id}\n`}event: ${event}\ndata: ${data}\n\n`;
+}
+
+// Replays the latest quote to a (re)connecting client unless it has already seen it.
+export function subscribeSpotStream(metal: Metal, listener: Listener, lastEventId: string | null): () => void {
+  const state = getStream(metal);
+  if (state.lastEvent && String(state.lastEvent.id) !== lastEventId) {
+    listener(state.lastEvent);
+  }
+
+  state.listeners.add(listener);
+  if (!state.timer) {
+    schedule(state, 0);
+  }
+
+  return () => {
+    state.listeners.delete(listener);
+    if (state.listeners.size === 0 && state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+  };
+}
@@ -0,0 +1,76 @@
+import { readFileSync } from "node:fs";
+import { vi } from "vitest";
+
+const FIXTURES_DIR = new URL("../lib/market/fixtures/", import.meta.url);
+
+const YAHOO_FIXTURES: Record<string, string> = {
+  "GC=F": "gold",
+  "SI=F": "silver",
+  "KRW=X": "usdkrw",
+  "JPY=X": "usdjpy",
+  "CNY=X": "usdcny",
+  "EUR=X": "usdeur",
+  "^KS11": "kospi",
+};
+
+// Symbols with recorded daily bars, served for interval=1d history requests.
+const YAHOO_DAILY_FIXTURES = new Set(["gold", "usdkrw"]);
+
+const NAVER_FIXTURES: Record<string, string> = {
+  "goldDetail.naver": "gold-detail-up.html",
+  "exchangeDetail.naver": "exchange-usdkrw.html",
+  "worldGoldDetail.naver": "world-gold.html",
+  "goldDailyQuote.naver": "gold-daily.html",
+};
+
+export function readFixture(name: string): string {
+  return readFileSync(new URL(name, FIXTURES_DIR), "utf8");
+}
+
+// Yahoo quotes are fetched as a 1d range; everything else is a history request, daily where recorded.
+function toFixtureName(url: URL): string | null {
+  const file = decodeURIComponent(url.pathname.split("/").at(-1) ?? "");
+  if (url.hostname === "query1.finance.yahoo.com") {
+    const name = YAHOO_FIXTURES[file];
+    if (!name) {
+      return null;
+    }
+    if (url.searchParams.get("range") === "1d") {
+      return `yahoo/${name}-quote.json`;
+    }
+    const daily = url.searchParams.get("interval") === "1d" && YAHOO_DAILY_FIXTURES.has(name);
+    return `yahoo/${name}-${daily ? "daily-history" : "history"}.json`;
+  }
+  if (url.hostname === "finance.naver.com") {
+    const name = NAVER_FIXTURES[file];
+    return name ? `naver/${name}` : null;
+  }
+  return null;
+}
+
+// Stubs global fetch with recorded Yahoo and Naver responses. URLs containing any of `failing`
+// (matched against the decoded URL, e.g. "GC=F" or "goldDetail") answer 503 instead.
+export function mockUpstream(failing: string[] = []) {
+  const fetchMock = vi.fn(async (input: string | URL | Request) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    if (failing.some((fragment) => decodeURIComponent(url.href).includes(fragment))) {
+      return new Response("upstream unavailable", { status: 503 });
+    }
+
+    const name = toFixtureName(url);
+    return name ? new Response(readFixture(name)) : new Response("not found", { status: 404 });
+  });
+
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+// The quote cache lives on globalThis for the whole test run; each test starts it cold.
+export function clearQuoteCache() {
+  const store = (globalThis as { __quoteCache?: { entries: Map<string, unknown> } }).__quoteCache;
+  store?.entries.clear();
+}
+
+export function clearUpstreamHealth() {
+  (globalThis as { __upstreamHealth?: Map<string, unknown> }).__upstreamHealth?.clear();
+}